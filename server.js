@@ -1,12 +1,26 @@
 import express from 'express';
 import cors from 'cors';
-import nodemailer from 'nodemailer';
 import dotenv from 'dotenv';
 import fileUpload from 'express-fileupload';
-import fs from 'fs';
 import path from 'path';
 import { dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { Packer } from 'docx';
+import { TENANTS, DEFAULT_TENANT_ID, getTenant, getTenantOrigins, getTenantPolicy, resolveTenant } from './src/utils/tenants.ts';
+import { fromCVDataJSON, parseCVSubmission, parseValidationPolicy, toCVDataJSON } from './src/utils/cvSchema.ts';
+import { buildComplianceReport } from './src/utils/compliance.ts';
+import { buildCVDocumentModel } from './src/utils/cvDocumentModel.ts';
+import { renderDocxDocument } from './src/utils/docxRenderer.ts';
+import { renderPdfDocument } from './src/utils/pdfRenderer.ts';
+import { createSubmissionStore } from './server/submissionStore.js';
+import { createAdminRouter } from './server/adminRoutes.js';
+import { createMailTransport, getOutboxDir } from './server/mailTransports.js';
+import { createEmailOutbox } from './server/emailOutbox.js';
+import { MAX_UPLOAD_BYTES, UploadError, parseCVUpload } from './server/cvUpload.js';
+import { createIdempotencyStore, hashRequest } from './server/idempotency.js';
+import { createRateLimiter, limitByIp, sendRateLimited } from './server/rateLimit.js';
+import { createEmailVerification, createEmailVerificationRouter } from './server/emailVerification.js';
+import { createDevMailboxRouter } from './server/devMailboxRoutes.js';
 
 dotenv.config();
 
@@ -14,16 +28,20 @@ const __dirname = dirname(fileURLToPath(import.meta.url));
 const app = express();
 const port = process.env.PORT || 3001;
 
-// Configure nodemailer transporter
-const transporter = nodemailer.createTransport({
-  host: process.env.EMAIL_HOST || 'smtp.gmail.com',
-  port: parseInt(process.env.EMAIL_PORT || '587'),
-  secure: process.env.EMAIL_SECURE === 'true',
-  auth: {
-    user: process.env.EMAIL_USER,
-    pass: process.env.EMAIL_PASS
-  }
-});
+// Number of proxies in front of the server, e.g. 1 on Railway, so req.ip is
+// the client's address for rate limiting
+const trustProxyHops = parseInt(process.env.TRUST_PROXY_HOPS || '0');
+if (trustProxyHops > 0) {
+  app.set('trust proxy', trustProxyHops);
+}
+
+const dataDir = process.env.DATA_DIR || path.join(__dirname, 'data');
+
+// Every submission is kept on disk, see server/submissionStore.js
+const submissions = createSubmissionStore(dataDir);
+
+// SMTP, Resend or a local outbox, picked by MAIL_TRANSPORT, see server/mailTransports.js
+const mailTransport = createMailTransport(process.env, { dataDir });
 
 // Configure CORS to allow requests from both development and production
 const allowedOrigins = [
@@ -33,11 +51,196 @@ const allowedOrigins = [
   'http://localhost:3003',
   'http://localhost:3004',
   'http://localhost:3005',
-  'https://royacare-cv-builder.vercel.app',
-  'https://cv-chronologizer.vercel.app',
-  'https://naomicare-cv-builder.vercel.app'
+  ...getTenantOrigins()
 ];
 
+// Suffix of a tenant's environment variables, e.g. EMAIL_TO_ROYACARE
+const getTenantEnvKey = (tenant) => tenant.id.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+
+// Mail routing for a tenant: EMAIL_TO_<TENANT>/EMAIL_FROM_<TENANT>, then
+// EMAIL_TO/EMAIL_FROM, then the tenant config. Only the default tenant's
+// config has addresses, so the sender falls back to it.
+const getTenantMailOptions = (tenant) => {
+  const key = getTenantEnvKey(tenant);
+
+  return {
+    to: process.env[`EMAIL_TO_${key}`] || process.env.EMAIL_TO || tenant.email?.to,
+    from: process.env[`EMAIL_FROM_${key}`] || process.env.EMAIL_FROM || tenant.email?.from ||
+      getTenant(DEFAULT_TENANT_ID).email?.from
+  };
+};
+
+// CVs must never go to a guessed mailbox, so refuse to start without one
+const tenantsWithoutRecipient = TENANTS.filter(tenant => !getTenantMailOptions(tenant).to);
+if (tenantsWithoutRecipient.length > 0) {
+  console.error(`No mailbox for submitted CVs is configured for ${tenantsWithoutRecipient.map(tenant => tenant.id).join(', ')}. Set ${tenantsWithoutRecipient.map(tenant => `EMAIL_TO_${getTenantEnvKey(tenant)}`).join(', ')} or EMAIL_TO.`);
+  process.exit(1);
+}
+
+// Validation policy for a tenant. POLICY_<TENANT> may hold JSON overrides for
+// the tenant config, e.g. {"firstEntryMaxAge": 16}, so an agency's rules can
+// change without a new build. Invalid overrides are logged and ignored.
+const getPolicy = (tenant) => {
+  const policy = getTenantPolicy(tenant);
+  const overrides = process.env[`POLICY_${getTenantEnvKey(tenant)}`];
+  if (!overrides) return policy;
+
+  let raw;
+  try {
+    raw = JSON.parse(overrides);
+  } catch {
+    console.error(`POLICY_${getTenantEnvKey(tenant)} is not valid JSON, using the default policy`);
+    return policy;
+  }
+
+  const result = parseValidationPolicy(raw, policy);
+  if (!result.success) {
+    console.error(`POLICY_${getTenantEnvKey(tenant)} is not a valid policy, using the default policy:`, result.issues);
+    return policy;
+  }
+  return result.policy;
+};
+
+// Each agency's dashboard token: ADMIN_TOKEN_<TENANT>, or ADMIN_TOKEN for the
+// default tenant. A token only gives access to its own agency's submissions.
+const adminTokens = TENANTS
+  .map(tenant => ({
+    tenantId: tenant.id,
+    token: process.env[`ADMIN_TOKEN_${getTenantEnvKey(tenant)}`] ||
+      (tenant.id === DEFAULT_TENANT_ID && process.env.ADMIN_TOKEN) || ''
+  }))
+  .filter(adminToken => adminToken.token);
+
+if (new Set(adminTokens.map(adminToken => adminToken.token)).size !== adminTokens.length) {
+  console.error('Two agencies have the same admin token. Give each ADMIN_TOKEN_<TENANT> its own value.');
+  process.exit(1);
+}
+
+// Secrets production cannot run without, checked now rather than when the
+// first request needs them. Elsewhere they are optional: an agency without a
+// token has no dashboard, and email verifications are lost on a restart.
+if (process.env.NODE_ENV === 'production') {
+  const missingSettings = [
+    ...TENANTS
+      .filter(tenant => !adminTokens.some(adminToken => adminToken.tenantId === tenant.id))
+      .map(tenant => `ADMIN_TOKEN_${getTenantEnvKey(tenant)}${tenant.id === DEFAULT_TENANT_ID ? ' (or ADMIN_TOKEN)' : ''}`),
+    ...(process.env.EMAIL_VERIFICATION_SECRET ? [] : ['EMAIL_VERIFICATION_SECRET'])
+  ];
+  if (missingSettings.length > 0) {
+    console.error(`Missing required settings: ${missingSettings.join(', ')}. See .env.example.`);
+    process.exit(1);
+  }
+}
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const escapeHtml = (text) => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Safer-recruitment checklist for the agency email, see src/utils/compliance.ts
+const renderComplianceHtml = (report) => `
+  <h3 style="font-family: Arial, sans-serif; font-size: 14px; margin-bottom: 4px;">Safer recruitment checks: ${report.passed ? 'all passed' : 'action needed'}</h3>
+  <ul style="font-family: Arial, sans-serif; font-size: 14px; list-style: none; padding-left: 0; margin-top: 0;">
+    ${report.checks.map(check => `
+      <li style="margin-bottom: 6px;">
+        <span style="color: ${check.passed ? '#16a34a' : '#dc2626'}; font-weight: bold;">${check.passed ? '&#10003; Pass' : '&#10007; Fail'}</span>
+        ${escapeHtml(check.label)}
+        ${check.details.length > 0 ? `<ul style="font-size: 13px; color: #4b5563; margin: 2px 0 0;">${check.details.map(detail => `<li>${escapeHtml(detail)}</li>`).join('')}</ul>` : ''}
+      </li>
+    `).join('')}
+  </ul>
+`;
+
+// Render the CV with the same generator the browser uses for previews
+const renderCVFiles = async (data, templateId, tenant) => {
+  const model = buildCVDocumentModel(data, templateId, tenant.id);
+  const docx = await Packer.toBuffer(renderDocxDocument(model));
+  const pdf = Buffer.from(renderPdfDocument(model).output('arraybuffer'));
+  return { model, docx, pdf };
+};
+
+// The agency's email for a stored submission, rebuilt from what was stored so
+// it can be sent again on a retry or a resend
+const composeSubmissionEmail = async (submission) => {
+  const tenant = getTenant(submission.tenantId);
+  const { firstName, lastName, email, emailVerified } = submission.candidate;
+  const name = `${firstName} ${lastName}`;
+
+  const attachments = [];
+  for (const kind of Object.keys(submission.files)) {
+    const file = await submissions.readFile(submission.id, kind);
+    if (file) {
+      attachments.push({ filename: file.filename, content: file.content, contentType: file.contentType });
+    }
+  }
+
+  // Uploaded documents come without CVData, so there is nothing to check
+  const checksHtml = submission.data
+    ? renderComplianceHtml(buildComplianceReport(fromCVDataJSON(submission.data), getPolicy(tenant)))
+    : '<p style="font-family: Arial, sans-serif; font-size: 12px; color: #6b7280;">Safer recruitment checks were not run because this CV was uploaded as a finished document.</p>';
+
+  return {
+    ...getTenantMailOptions(tenant),
+    subject: `New CV Submission - ${name}`,
+    html: `
+      <p style="font-family: Arial, sans-serif; font-size: 14px;">Please find attached the CV for <strong>${escapeHtml(name)}</strong>.</p>
+      <p style="font-family: Arial, sans-serif; font-size: 14px;">This CV was generated using the ${escapeHtml(tenant.appTitle)}.</p>
+      ${email ? `
+        <p style="font-family: Arial, sans-serif; font-size: 14px;">
+          Candidate email: ${escapeHtml(email)}
+          ${emailVerified
+            ? '<span style="color: #16a34a; font-weight: bold;">&#10003; email verified</span>'
+            : '<span style="color: #ca8a04; font-weight: bold;">not verified</span>'}
+        </p>
+      ` : ''}
+      ${checksHtml}
+      <p style="font-family: Arial, sans-serif; font-size: 12px; color: #6b7280;">Submission reference: ${submission.id}</p>
+    `,
+    attachments
+  };
+};
+
+// Submission emails are queued and retried, see server/emailOutbox.js
+const emailOutbox = createEmailOutbox({ submissions, mailTransport, composeEmail: composeSubmissionEmail });
+
+// Repeats of a submission get the first response, see server/idempotency.js
+const idempotencyKeys = createIdempotencyStore(dataDir);
+
+// Limits on new submissions: per client IP, and per candidate at each agency.
+// The IP limit runs after the idempotency middleware, so replays of a
+// submission are answered without counting against it.
+const HOUR_MS = 60 * 60 * 1000;
+const limitSubmissionsByIp = limitByIp(
+  createRateLimiter({ windowMs: HOUR_MS, max: 20 }),
+  'Too many submissions from your network. Please try again later.'
+);
+const candidateLimiter = createRateLimiter({ windowMs: 24 * HOUR_MS, max: 3 });
+
+// One-time codes confirming the candidate's email, see server/emailVerification.js
+const emailVerification = createEmailVerification({
+  mailTransport,
+  secret: process.env.EMAIL_VERIFICATION_SECRET
+});
+
+// Counts a submission against the candidate's limit. Sends the 429 and
+// returns false if they are over it.
+const checkCandidateLimit = (res, tenant, candidateKey) => {
+  const { allowed, retryAfterMs } = candidateLimiter.hit(`${tenant.id}:${candidateKey.toLowerCase()}`);
+  if (!allowed) {
+    console.error(`Rate limited submissions for a candidate at ${tenant.id}`);
+    sendRateLimited(res, retryAfterMs, 'This CV has already been submitted several times today. Please contact the agency if you need to change it.');
+  }
+  return allowed;
+};
+
+console.log(`Configured tenants: ${TENANTS.map(tenant => `${tenant.id} (CVs to ${getTenantMailOptions(tenant).to})`).join(', ')}`);
+console.log(`Sending email with the ${mailTransport.name} transport`);
+console.log(`Admin dashboard enabled for: ${adminTokens.map(adminToken => adminToken.tenantId).join(', ') || 'none'}`);
+
 app.use(cors({
   origin: function(origin, callback) {
     // Allow requests with no origin (like mobile apps or curl requests)
@@ -51,84 +254,172 @@ app.use(cors({
   },
   methods: ['GET', 'POST', 'OPTIONS'],
   credentials: true,
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'],
+  exposedHeaders: ['Content-Disposition', 'Retry-After'],
   optionsSuccessStatus: 200
 }));
 
-app.use(express.json());
-app.use(fileUpload({
-  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB max file size
-  useTempFiles: false, // Don't use temp files to avoid potential issues
-  debug: true, // Enable debug for troubleshooting
-  preserveExtension: true // Keep file extensions
-}));
+app.use(express.json({ limit: '2mb' }));
 
-// Endpoint to send CV via email
-app.post('/api/send-cv', async (req, res) => {
+// Multipart parsing for /api/send-cv only. Uploads stay in memory, so nothing
+// is written to disk until the submission store has a sanitised name for it,
+// and anything over the limit is cut off and rejected.
+const parseUpload = fileUpload({
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1, fields: 10, fieldSize: 1024 },
+  useTempFiles: false
+});
+
+// Rules the editor checks CVs against, the same ones submissions are
+// validated with. The editor names its tenant, as it may be previewing
+// another agency's branding locally.
+app.get('/api/policy', (req, res) => {
+  const tenant = typeof req.query.tenant === 'string'
+    ? getTenant(req.query.tenant)
+    : resolveTenant(req.headers.origin || req.hostname);
+
+  res.json({ tenantId: tenant.id, policy: getPolicy(tenant) });
+});
+
+// Endpoint for a finished CV document (DOCX or PDF) uploaded by the
+// candidate. Rejections come with a `code`, see server/cvUpload.js.
+app.post('/api/send-cv', parseUpload, idempotencyKeys.middleware({
+  getScope: (req) => `send-cv:${resolveTenant(req.headers.origin || req.hostname).id}`,
+  getRequestHash: (req) => hashRequest(req.body?.firstName, req.body?.lastName, req.files?.cv?.data)
+}), limitSubmissionsByIp, async (req, res) => {
   try {
     console.log('Received CV upload request');
-    
-    if (!req.files || !req.files.cv) {
-      console.error('No CV file uploaded');
-      return res.status(400).json({ error: 'No CV file uploaded' });
-    }
 
-    const cvFile = req.files.cv;
-    const { firstName, lastName } = req.body;
-    
-    console.log(`Received CV for ${firstName} ${lastName} (${cvFile.size} bytes, type: ${cvFile.mimetype})`);
+    const { firstName, lastName, kind, file } = parseCVUpload(req.files, req.body);
 
-    if (!firstName || !lastName) {
-      console.error('Missing required fields');
-      return res.status(400).json({ error: 'Missing required fields' });
-    }
+    // Route the email to the agency whose site sent the request
+    const tenant = resolveTenant(req.headers.origin || req.hostname);
+
+    console.log(`Received ${kind.toUpperCase()} CV for ${tenant.id} (${file.content.length} bytes)`);
 
-    if (cvFile.size === 0) {
-      console.error('CV file is empty');
-      return res.status(400).json({ error: 'CV file is empty' });
+    if (!checkCandidateLimit(res, tenant, `${firstName} ${lastName}`)) return;
+
+    const submission = await submissions.create({
+      files: { [kind]: file },
+      origin: req.headers.origin,
+      tenantId: tenant.id,
+      candidate: { firstName, lastName }
+    });
+
+    console.log(`Stored submission ${submission.id}`);
+
+    emailOutbox.enqueue(submission);
+
+    res.json({ success: true, submissionId: submission.id });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      console.error(`Rejected CV upload (${error.code}): ${error.message}`);
+      return res.status(error.status).json({ error: error.message, code: error.code });
     }
+    console.error('Error storing CV upload:', error);
+    res.status(500).json({ error: 'Failed to submit CV', code: 'internal_error' });
+  }
+});
 
-    const tempFilePath = path.join(__dirname, `${firstName}_${lastName}_CV.docx`);
-    await cvFile.mv(tempFilePath);
-    
-    console.log(`Saved temporary file to ${tempFilePath}`);
-
-    console.log('Sending email with attachment...');
-    const mailOptions = {
-      from: process.env.EMAIL_FROM || 'CV Chronologizer <recruitment@royacare.co.uk>',
-      to: process.env.EMAIL_TO || 'recruitment@royacare.co.uk',
-      subject: `New CV Submission - ${firstName} ${lastName}`,
-      html: `
-        <p style="font-family: Arial, sans-serif; font-size: 14px;">Please find attached the CV for <strong>${firstName} ${lastName}</strong>.</p>
-        <p style="font-family: Arial, sans-serif; font-size: 14px;">This CV was generated using the Royacare Agency CV Builder.</p>
-      `,
-      attachments: [
-        {
-          filename: `${firstName}_${lastName}_CV.docx`,
-          path: tempFilePath,
-          contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-        }
-      ]
-    };
-
-    const info = await transporter.sendMail(mailOptions);
-    console.log('Email sent successfully:', info.messageId);
-    
-    // Clean up the temporary file
-    fs.unlinkSync(tempFilePath);
-    console.log(`Temporary file ${tempFilePath} removed`);
-    
-    if (!info || !info.messageId) {
-      throw new Error('Failed to send email');
+// Endpoint to submit CV data. The server validates it with the editor's rules
+// and renders the DOCX and PDF itself, so the agency only receives CVs built
+// from data that passed validation.
+app.post('/api/submit-cv', idempotencyKeys.middleware({
+  getScope: (req) => `submit-cv:${resolveTenant(req.headers.origin || req.hostname).id}`,
+  // The template is left out, so choosing another one and sending again
+  // replays the first submission rather than being refused
+  getRequestHash: (req) => hashRequest(req.body?.data)
+}), limitSubmissionsByIp, async (req, res) => {
+  try {
+    console.log('Received CV data submission');
+
+    const { data, templateId, emailVerificationToken } = req.body || {};
+    const tenant = resolveTenant(req.headers.origin || req.hostname);
+    const result = parseCVSubmission(data, getPolicy(tenant));
+
+    if (!result.success) {
+      console.error('Invalid CV data:', result.issues);
+      return res.status(422).json({ error: 'The CV data is not valid', issues: result.issues });
     }
 
-    res.json({ success: true, data: info });
+    const { firstName, lastName } = result.data.personalInfo;
+    const name = `${firstName} ${lastName}`;
+
+    // Candidates are told apart by email, or by name and date of birth
+    const { email, dateOfBirth } = result.data.personalInfo;
+    if (!checkCandidateLimit(res, tenant, email?.trim() || `${name} ${dateOfBirth}`)) return;
+
+    console.log(`Rendering CV for ${name} for ${tenant.id}`);
+    const { model, docx, pdf } = await renderCVFiles(result.data, typeof templateId === 'string' ? templateId : undefined, tenant);
+
+    const { personalInfo } = result.data;
+    const submission = await submissions.create({
+      data: toCVDataJSON(result.data),
+      files: {
+        docx: { filename: `${model.fileBaseName}.docx`, content: docx, contentType: DOCX_MIME_TYPE },
+        pdf: { filename: `${model.fileBaseName}.pdf`, content: pdf, contentType: 'application/pdf' }
+      },
+      origin: req.headers.origin,
+      tenantId: tenant.id,
+      templateId: model.template.id,
+      candidate: {
+        firstName,
+        lastName,
+        email: personalInfo.email || '',
+        emailVerified: !!personalInfo.email && emailVerification.isVerified({
+          token: emailVerificationToken,
+          email: personalInfo.email,
+          tenantId: tenant.id
+        }),
+        postcode: personalInfo.postcode || ''
+      }
+    });
+
+    console.log(`Stored submission ${submission.id}`);
+
+    emailOutbox.enqueue(submission);
+
+    res.json({ success: true, submissionId: submission.id });
   } catch (error) {
-    console.error('Error sending email:', error);
-    res.status(500).json({ error: error.message || 'Failed to send email' });
+    console.error('Error submitting CV:', error);
+    res.status(500).json({ error: 'Failed to submit CV', code: 'internal_error' });
   }
 });
 
+// Email verification for the editor, limited per IP like submissions as every
+// code sends an email
+app.use('/api/email-verification', limitByIp(
+  createRateLimiter({ windowMs: HOUR_MS, max: 30 }),
+  'Too many verification requests from your network. Please try again later.'
+), createEmailVerificationRouter({
+  verification: emailVerification,
+  getRequestTenant: (req) => resolveTenant(req.headers.origin || req.hostname),
+  getFromAddress: (tenant) => getTenantMailOptions(tenant).from
+}));
+
+// Recruiter dashboard API
+app.use('/api/admin', createAdminRouter({
+  submissions,
+  emailOutbox,
+  renderCVFiles,
+  getTenant,
+  fromCVDataJSON,
+  adminTokens
+}));
+
+// Emails written by the file transport, for local development only
+if (mailTransport.name === 'file' && process.env.NODE_ENV !== 'production') {
+  app.use('/dev/mailbox', createDevMailboxRouter({ outboxDir: getOutboxDir(dataDir) }));
+  console.log(`Mailbox viewer at http://localhost:${port}/dev/mailbox`);
+}
+
 app.listen(port, () => {
   console.log(`Server running on port ${port}`);
-}); 
\ No newline at end of file
+});
+
+emailOutbox.start().catch(error => {
+  console.error('Failed to start the email outbox:', error);
+});
+
+setInterval(() => {
+  idempotencyKeys.prune().catch(error => console.error('Error pruning idempotency keys:', error));
+}, HOUR_MS).unref(); 
\ No newline at end of file
@@ -0,0 +1,183 @@
+import express from 'express';
+import crypto from 'crypto';
+import { createRateLimiter, sendRateLimited } from './rateLimit.js';
+
+// API for the recruiter dashboard under /admin. Every route needs an agency's
+// admin token as a bearer token, and only shows that agency's submissions.
+
+const CONTENT_TYPES = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pdf: 'application/pdf'
+};
+
+// Wrong tokens allowed per IP before it is locked out for a while
+const MAX_FAILED_ATTEMPTS = 10;
+const FAILED_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+const tokensMatch = (given, expected) => {
+  const a = Buffer.from(String(given));
+  const b = Buffer.from(String(expected));
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+const normalize = (value) => String(value || '').toLowerCase().replace(/\s+/g, '');
+
+const matchesSearch = (submission, search) => {
+  if (!search) return true;
+
+  const { firstName, lastName, email, postcode } = submission.candidate || {};
+  return [
+    submission.id,
+    `${firstName}${lastName}`,
+    `${lastName}${firstName}`,
+    email,
+    postcode
+  ].some(value => normalize(value).includes(search));
+};
+
+// `from` and `to` are inclusive YYYY-MM-DD dates
+const matchesDateRange = (submission, from, to) => {
+  const day = submission.createdAt.slice(0, 10);
+  return (!from || day >= from) && (!to || day <= to);
+};
+
+const toSummary = ({ data, ...submission }) => ({
+  ...submission,
+  hasData: !!data
+});
+
+// `adminTokens` lists each agency's token as { tenantId, token }
+export const createAdminRouter = ({ submissions, emailOutbox, renderCVFiles, getTenant, fromCVDataJSON, adminTokens }) => {
+  const router = express.Router();
+  const failedAttempts = createRateLimiter({ windowMs: FAILED_ATTEMPT_WINDOW_MS, max: MAX_FAILED_ATTEMPTS });
+
+  // Sets req.adminTenantId to the agency the token belongs to
+  const requireAdmin = (req, res, next) => {
+    if (adminTokens.length === 0) {
+      return res.status(503).json({ error: 'Admin access is not configured', code: 'admin_not_configured' });
+    }
+
+    const { allowed, retryAfterMs } = failedAttempts.check(req.ip);
+    if (!allowed) {
+      return sendRateLimited(res, retryAfterMs, 'Too many invalid admin tokens. Please try again later.');
+    }
+
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+    // Every token is compared so the time taken does not tell which agency matched
+    const matches = scheme === 'Bearer' && token
+      ? adminTokens.filter(adminToken => tokensMatch(token, adminToken.token))
+      : [];
+    if (matches.length === 0) {
+      failedAttempts.hit(req.ip);
+      console.error(`Invalid admin token from ${req.ip}`);
+      return res.status(401).json({ error: 'Invalid admin token', code: 'invalid_admin_token' });
+    }
+
+    req.adminTenantId = matches[0].tenantId;
+    next();
+  };
+
+  // Submissions stored before agencies existed belong to the default one
+  const belongsToAdmin = (req, submission) => getTenant(submission.tenantId).id === req.adminTenantId;
+
+  // The submission if the admin's agency may see it
+  const getOwnSubmission = async (req) => {
+    const submission = await submissions.get(req.params.id);
+    return submission && belongsToAdmin(req, submission) ? submission : null;
+  };
+
+  router.use(requireAdmin);
+
+  // Lets the dashboard check a token before showing anything
+  router.get('/session', (req, res) => {
+    res.json({ success: true, tenantId: req.adminTenantId });
+  });
+
+  router.get('/submissions', async (req, res) => {
+    try {
+      const search = normalize(req.query.q);
+      const { status, from, to } = req.query;
+
+      const all = await submissions.list();
+      const results = all.filter(submission =>
+        belongsToAdmin(req, submission) &&
+        matchesSearch(submission, search) &&
+        matchesDateRange(submission, from, to) &&
+        (!status || submission.status === status)
+      );
+
+      res.json({ submissions: results.map(toSummary) });
+    } catch (error) {
+      console.error('Error listing submissions:', error);
+      res.status(500).json({ error: 'Failed to list submissions' });
+    }
+  });
+
+  router.get('/submissions/:id', async (req, res) => {
+    try {
+      const submission = await getOwnSubmission(req);
+      if (!submission) {
+        return res.status(404).json({ error: 'Submission not found' });
+      }
+      res.json({ submission });
+    } catch (error) {
+      console.error('Error loading submission:', error);
+      res.status(500).json({ error: 'Failed to load submission' });
+    }
+  });
+
+  // Queue the agency's email again, e.g. after it was dead-lettered or went
+  // missing, and make the first attempt before responding
+  router.post('/submissions/:id/resend', async (req, res) => {
+    try {
+      const submission = await getOwnSubmission(req) && await emailOutbox.resend(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ error: 'Submission not found' });
+      }
+      res.json({ submission });
+    } catch (error) {
+      console.error('Error resending submission email:', error);
+      res.status(500).json({ error: 'Failed to resend the email' });
+    }
+  });
+
+  // Documents are rendered again from the stored CVData so they reflect the
+  // current templates. Uploads without CVData fall back to the stored file.
+  router.get('/submissions/:id/document/:format', async (req, res) => {
+    try {
+      const { id, format } = req.params;
+      if (!Object.prototype.hasOwnProperty.call(CONTENT_TYPES, format)) {
+        return res.status(400).json({ error: `Unsupported format: ${format}` });
+      }
+
+      const submission = await getOwnSubmission(req);
+      if (!submission) {
+        return res.status(404).json({ error: 'Submission not found' });
+      }
+
+      let file;
+      if (submission.data) {
+        const rendered = await renderCVFiles(fromCVDataJSON(submission.data), submission.templateId, getTenant(submission.tenantId));
+        file = {
+          filename: `${rendered.model.fileBaseName}.${format}`,
+          content: rendered[format]
+        };
+      } else {
+        file = await submissions.readFile(id, format);
+      }
+
+      if (!file) {
+        return res.status(404).json({ error: `No ${format.toUpperCase()} is available for this submission` });
+      }
+
+      res.attachment(file.filename);
+      res.type(CONTENT_TYPES[format]);
+      res.send(file.content);
+    } catch (error) {
+      console.error('Error rendering submission document:', error);
+      res.status(500).json({ error: 'Failed to render document' });
+    }
+  });
+
+  return router;
+};
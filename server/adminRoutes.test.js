@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { createAdminRouter } from './adminRoutes.js';
+
+const DEFAULT_TENANT_ID = 'royacare';
+
+const SUBMISSIONS = [
+  { id: 'roya-1', tenantId: 'royacare', status: 'emailed', createdAt: '2026-01-02T10:00:00.000Z', candidate: { firstName: 'Ada' } },
+  { id: 'naomi-1', tenantId: 'naomicare', status: 'emailed', createdAt: '2026-01-03T10:00:00.000Z', candidate: { firstName: 'Grace' } },
+  { id: 'legacy-1', status: 'emailed', createdAt: '2025-12-01T10:00:00.000Z', candidate: { firstName: 'Alan' } }
+];
+
+describe('createAdminRouter', () => {
+  let server;
+  let baseUrl;
+  let emailOutbox;
+
+  const request = (path, token, method = 'GET') =>
+    fetch(`${baseUrl}${path}`, { method, headers: token ? { Authorization: `Bearer ${token}` } : {} });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    emailOutbox = { resend: vi.fn(async (id) => SUBMISSIONS.find(submission => submission.id === id)) };
+
+    const app = express();
+    app.use('/api/admin', createAdminRouter({
+      submissions: {
+        list: async () => SUBMISSIONS,
+        get: async (id) => SUBMISSIONS.find(submission => submission.id === id) || null,
+        readFile: async () => null
+      },
+      emailOutbox,
+      renderCVFiles: async () => { throw new Error('not used'); },
+      getTenant: (id) => ({ id: id || DEFAULT_TENANT_ID }),
+      fromCVDataJSON: (data) => data,
+      adminTokens: [
+        { tenantId: 'royacare', token: 'roya-token' },
+        { tenantId: 'naomicare', token: 'naomi-token' }
+      ]
+    }));
+
+    await new Promise(resolve => { server = app.listen(0, '127.0.0.1', resolve); });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  it('tells the dashboard which agency a token belongs to', async () => {
+    const response = await request('/api/admin/session', 'naomi-token');
+    expect(await response.json()).toEqual({ success: true, tenantId: 'naomicare' });
+  });
+
+  it('only lists the agency\'s own submissions', async () => {
+    const roya = await (await request('/api/admin/submissions', 'roya-token')).json();
+    const naomi = await (await request('/api/admin/submissions', 'naomi-token')).json();
+
+    // Submissions from before agencies existed belong to the default one
+    expect(roya.submissions.map(submission => submission.id)).toEqual(['roya-1', 'legacy-1']);
+    expect(naomi.submissions.map(submission => submission.id)).toEqual(['naomi-1']);
+  });
+
+  it('hides other agencies\' submissions and documents', async () => {
+    expect((await request('/api/admin/submissions/roya-1', 'naomi-token')).status).toBe(404);
+    expect((await request('/api/admin/submissions/roya-1/document/pdf', 'naomi-token')).status).toBe(404);
+    expect((await request('/api/admin/submissions/naomi-1', 'naomi-token')).status).toBe(200);
+  });
+
+  it('does not resend another agency\'s email', async () => {
+    expect((await request('/api/admin/submissions/roya-1/resend', 'naomi-token', 'POST')).status).toBe(404);
+    expect(emailOutbox.resend).not.toHaveBeenCalled();
+  });
+
+  it('locks an IP out after too many invalid tokens', async () => {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      expect((await request('/api/admin/session', 'guess')).status).toBe(401);
+    }
+
+    const response = await request('/api/admin/session', 'roya-token');
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('900');
+  });
+});
@@ -0,0 +1,105 @@
+// Checks for finished CV documents uploaded to /api/send-cv. Nothing about an
+// upload is trusted: the format is read from the file's own bytes rather than
+// its name or MIME type, and the candidate's name is limited to what is safe
+// in a file name before it is used for one.
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+const MAX_NAME_LENGTH = 100;
+
+// Upload formats accepted, keyed by the submission store's file kind
+const FORMATS = {
+  docx: { label: 'Word document (.docx)', contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  pdf: { label: 'PDF', contentType: 'application/pdf' }
+};
+
+// A rejected upload. `code` is stable for clients to switch on, `message` is
+// for people.
+export class UploadError extends Error {
+  constructor(code, message, status = 400) {
+    super(message);
+    this.name = 'UploadError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const PDF_SIGNATURE = Buffer.from('%PDF-');
+
+// A DOCX is a ZIP archive holding word/document.xml. Entry names are stored
+// uncompressed, so they can be found without unpacking it.
+const isDocx = (content) =>
+  content.subarray(0, 4).equals(ZIP_SIGNATURE) &&
+  content.includes('[Content_Types].xml', 0, 'latin1') &&
+  content.includes('word/document.xml', 0, 'latin1');
+
+// Readers accept the header anywhere in the first kilobyte
+const isPdf = (content) => content.subarray(0, 1024).includes(PDF_SIGNATURE);
+
+// The kind of document the bytes are, or null if it is not one we accept
+export const detectDocumentKind = (content) => {
+  if (isDocx(content)) return 'docx';
+  if (isPdf(content)) return 'pdf';
+  return null;
+};
+
+const parseName = (value, field) => {
+  // Repeated form fields arrive as arrays
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new UploadError('missing_fields', 'First name and last name are required');
+  }
+
+  const name = value.trim().replace(/\s+/g, ' ');
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new UploadError('invalid_name', `The ${field} must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (/\p{Cc}/u.test(name)) {
+    throw new UploadError('invalid_name', `The ${field} contains characters that are not allowed`);
+  }
+  return name;
+};
+
+// Letters and digits only, e.g. "Zoë O'Neil" -> "Zoe_ONeil"
+const toFilenamePart = (name) =>
+  name.normalize('NFKD').replace(/[\p{M}']/gu, '').replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'Candidate';
+
+// Check an upload parsed by express-fileupload. Returns the candidate's
+// name and the document ready for the submission store, or throws an
+// UploadError.
+export const parseCVUpload = (files, body) => {
+  const cvFile = files?.cv;
+  if (!cvFile || Array.isArray(cvFile)) {
+    throw new UploadError('missing_file', 'Upload exactly one CV file in the "cv" field');
+  }
+
+  const firstName = parseName(body?.firstName, 'first name');
+  const lastName = parseName(body?.lastName, 'last name');
+
+  if (cvFile.truncated) {
+    throw new UploadError('file_too_large', `The CV must be at most ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB`, 413);
+  }
+  if (cvFile.size === 0 || cvFile.data.length === 0) {
+    throw new UploadError('empty_file', 'The CV file is empty');
+  }
+
+  const kind = detectDocumentKind(cvFile.data);
+  if (!kind) {
+    throw new UploadError(
+      'unsupported_file_type',
+      `The CV must be a ${Object.values(FORMATS).map(format => format.label).join(' or ')}`,
+      415
+    );
+  }
+
+  return {
+    firstName,
+    lastName,
+    kind,
+    file: {
+      filename: `${toFilenamePart(firstName)}_${toFilenamePart(lastName)}_CV.${kind}`,
+      content: cvFile.data,
+      contentType: FORMATS[kind].contentType
+    }
+  };
+};
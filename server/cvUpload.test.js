@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_UPLOAD_BYTES, UploadError, detectDocumentKind, parseCVUpload } from './cvUpload.js';
+
+// Just enough of a DOCX for the checks: the ZIP signature and the entry names
+const DOCX = Buffer.concat([
+  Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+  Buffer.from('....[Content_Types].xml....word/document.xml....', 'latin1')
+]);
+const PDF = Buffer.from('%PDF-1.7\n%âãÏÓ\n1 0 obj', 'latin1');
+
+const upload = (data, overrides = {}) => ({ name: 'cv.docx', data, size: data.length, truncated: false, ...overrides });
+
+const names = { firstName: 'Ada', lastName: 'Lovelace' };
+
+const expectUploadError = (run, code, status = 400) => {
+  let caught;
+  try {
+    run();
+  } catch (error) {
+    caught = error;
+  }
+  expect(caught).toBeInstanceOf(UploadError);
+  expect(caught).toMatchObject({ code, status });
+};
+
+describe('detectDocumentKind', () => {
+  it('recognises DOCX and PDF from their bytes', () => {
+    expect(detectDocumentKind(DOCX)).toBe('docx');
+    expect(detectDocumentKind(PDF)).toBe('pdf');
+  });
+
+  it('accepts a PDF header within the first kilobyte', () => {
+    expect(detectDocumentKind(Buffer.concat([Buffer.alloc(500), PDF]))).toBe('pdf');
+    expect(detectDocumentKind(Buffer.concat([Buffer.alloc(1024), PDF]))).toBeNull();
+  });
+
+  it('rejects ZIP archives that are not Word documents', () => {
+    const zip = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from('[Content_Types].xml xl/workbook.xml')]);
+    expect(detectDocumentKind(zip)).toBeNull();
+  });
+
+  it('rejects other files whatever they are called', () => {
+    expect(detectDocumentKind(Buffer.from('<html><body>CV</body></html>'))).toBeNull();
+    expect(detectDocumentKind(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]))).toBeNull();
+  });
+});
+
+describe('parseCVUpload', () => {
+  it('names the file after the candidate and the detected format', () => {
+    const result = parseCVUpload({ cv: upload(PDF, { name: 'cv.docx' }) }, { firstName: ' Zoë ', lastName: "O'Neil  Smith" });
+
+    expect(result).toMatchObject({ firstName: 'Zoë', lastName: "O'Neil Smith", kind: 'pdf' });
+    expect(result.file).toEqual({ filename: 'Zoe_ONeil_Smith_CV.pdf', content: PDF, contentType: 'application/pdf' });
+  });
+
+  it('requires exactly one file', () => {
+    expectUploadError(() => parseCVUpload({}, names), 'missing_file');
+    expectUploadError(() => parseCVUpload({ cv: [upload(DOCX), upload(DOCX)] }, names), 'missing_file');
+  });
+
+  it('requires safe names', () => {
+    expectUploadError(() => parseCVUpload({ cv: upload(DOCX) }, { firstName: 'Ada' }), 'missing_fields');
+    expectUploadError(() => parseCVUpload({ cv: upload(DOCX) }, { ...names, lastName: ['A', 'B'] }), 'missing_fields');
+    expectUploadError(() => parseCVUpload({ cv: upload(DOCX) }, { ...names, lastName: 'x'.repeat(101) }), 'invalid_name');
+    expectUploadError(() => parseCVUpload({ cv: upload(DOCX) }, { ...names, lastName: 'Love\u0000lace' }), 'invalid_name');
+  });
+
+  it('refuses truncated, empty and unsupported files', () => {
+    expectUploadError(() => parseCVUpload({ cv: upload(DOCX, { truncated: true, size: MAX_UPLOAD_BYTES }) }, names), 'file_too_large', 413);
+    expectUploadError(() => parseCVUpload({ cv: upload(Buffer.alloc(0)) }, names), 'empty_file');
+    expectUploadError(() => parseCVUpload({ cv: upload(Buffer.from('not a cv')) }, names), 'unsupported_file_type', 415);
+  });
+});
@@ -0,0 +1,134 @@
+import express from 'express';
+import fs from 'fs/promises';
+import path from 'path';
+
+// Viewer for emails written by the file transport (MAIL_TRANSPORT=file), so
+// the submission flow can be followed without a real mailbox. Only mounted
+// outside production.
+
+const ID_PATTERN = /^\d+-[0-9a-f]{8}$/;
+
+const escapeHtml = (text) => String(text ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const formatSize = (bytes) => bytes < 1024 ? `${bytes} B` : `${Math.round(bytes / 1024)} KB`;
+
+const renderPage = (title, body) => `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(title)}</title>
+    <style>
+      body { font-family: Arial, sans-serif; font-size: 14px; margin: 24px; color: #111827; }
+      table { border-collapse: collapse; width: 100%; }
+      th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+      dt { font-weight: bold; }
+      dd { margin: 0 0 8px; }
+      iframe { width: 100%; height: 480px; border: 1px solid #e5e7eb; }
+    </style>
+  </head>
+  <body>${body}</body>
+</html>`;
+
+export const createDevMailboxRouter = ({ outboxDir }) => {
+  const router = express.Router();
+
+  const readMessage = async (id) => {
+    if (!ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(path.join(outboxDir, `${id}.json`), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  router.get('/', async (req, res) => {
+    try {
+      const filenames = await fs.readdir(outboxDir).catch(error => {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+      });
+      const ids = filenames
+        .filter(filename => filename.endsWith('.json'))
+        .map(filename => filename.slice(0, -'.json'.length))
+        .sort()
+        .reverse();
+      const messages = (await Promise.all(ids.map(readMessage))).filter(Boolean);
+
+      res.send(renderPage('Mailbox', `
+        <h1>Mailbox</h1>
+        <p>Emails written to ${escapeHtml(outboxDir)} by the file mail transport.</p>
+        ${messages.length === 0 ? '<p>No emails yet.</p>' : `
+          <table>
+            <tr><th>Sent</th><th>To</th><th>Subject</th><th>Attachments</th></tr>
+            ${messages.map(message => `
+              <tr>
+                <td>${escapeHtml(message.sentAt)}</td>
+                <td>${escapeHtml(message.to)}</td>
+                <td><a href="${req.baseUrl}/${message.id}">${escapeHtml(message.subject)}</a></td>
+                <td>${message.attachments.length}</td>
+              </tr>
+            `).join('')}
+          </table>
+        `}
+      `));
+    } catch (error) {
+      console.error('Error listing the outbox:', error);
+      res.status(500).send('Failed to list the outbox');
+    }
+  });
+
+  router.get('/:id', async (req, res) => {
+    try {
+      const message = await readMessage(req.params.id);
+      if (!message) {
+        return res.status(404).send('Email not found');
+      }
+
+      // The body is shown in a sandboxed frame so its scripts and styles stay inside it
+      res.send(renderPage(message.subject, `
+        <p><a href="${req.baseUrl}">&larr; Mailbox</a></p>
+        <h1>${escapeHtml(message.subject)}</h1>
+        <dl>
+          <dt>From</dt><dd>${escapeHtml(message.from)}</dd>
+          <dt>To</dt><dd>${escapeHtml(message.to)}</dd>
+          <dt>Sent</dt><dd>${escapeHtml(message.sentAt)}</dd>
+          <dt>Message ID</dt><dd>${escapeHtml(message.messageId)}</dd>
+          <dt>Attachments</dt>
+          <dd>${message.attachments.map(attachment => `${escapeHtml(attachment.filename)} (${formatSize(attachment.size)})`).join(', ') || 'None'}</dd>
+        </dl>
+        <p><a href="${req.baseUrl}/${message.id}/raw">Download .eml</a> to open it with the attachments in a mail client.</p>
+        <iframe sandbox srcdoc="${escapeHtml(message.html)}"></iframe>
+      `));
+    } catch (error) {
+      console.error('Error reading email:', error);
+      res.status(500).send('Failed to read the email');
+    }
+  });
+
+  router.get('/:id/raw', async (req, res) => {
+    if (!ID_PATTERN.test(req.params.id)) {
+      return res.status(404).send('Email not found');
+    }
+
+    try {
+      const eml = await fs.readFile(path.join(outboxDir, `${req.params.id}.eml`));
+      res.setHeader('Content-Type', 'message/rfc822');
+      res.setHeader('Content-Disposition', `attachment; filename="${req.params.id}.eml"`);
+      res.send(eml);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return res.status(404).send('Email not found');
+      }
+      console.error('Error reading email:', error);
+      res.status(500).send('Failed to read the email');
+    }
+  });
+
+  return router;
+};
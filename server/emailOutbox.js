@@ -0,0 +1,157 @@
+// Durable queue for submission emails. A submission is stored before it is
+// emailed, so the candidate's request can succeed as soon as it is on disk
+// and the email is sent in the background, retried with exponential backoff
+// if the mail transport fails.
+//
+// The queue state lives on the stored submission itself, so nothing is lost
+// on a restart:
+//
+//   status   'received'        waiting for its first attempt
+//            'email_retrying'  failed, waiting for nextAttemptAt
+//            'emailed'         sent
+//            'email_failed'    gave up after maxAttempts (dead letter), or
+//                              failed before retries existed. Only an admin
+//                              resend queues it again.
+//   email    { attempts, lastAttemptAt, nextAttemptAt, error, failedAt,
+//              messageId, sentAt }
+
+const PENDING_STATUSES = ['received', 'email_retrying'];
+
+const DEFAULT_OPTIONS = {
+  maxAttempts: 6,
+  retryDelayMs: 60 * 1000, // doubles after every failed attempt...
+  maxRetryDelayMs: 60 * 60 * 1000, // ...up to an hour
+  pollIntervalMs: 15 * 1000
+};
+
+// Delay before the attempt after `attempts` failed ones
+const getRetryDelay = (attempts, { retryDelayMs, maxRetryDelayMs }) =>
+  Math.min(retryDelayMs * 2 ** (attempts - 1), maxRetryDelayMs);
+
+// `composeEmail(submission)` builds the nodemailer-style mail options for a
+// submission, attachments included. It is called again for every attempt, so
+// a resend picks up the agency's current mail routing.
+export const createEmailOutbox = ({ submissions, mailTransport, composeEmail, ...options }) => {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+
+  // Submission id -> time of its next attempt, rebuilt from the store on start
+  const pending = new Map();
+  // Submissions being sent right now, so no email goes out twice
+  const sending = new Set();
+  let timer = null;
+
+  // Run `task` with the submission marked as being sent. The mark is taken
+  // before anything is awaited, so the poll loop and an admin resend can
+  // never both send the same email. Resolves to null if it was already taken.
+  const withSendingClaim = async (id, task) => {
+    if (sending.has(id)) return null;
+    sending.add(id);
+    pending.delete(id);
+
+    try {
+      return await task();
+    } finally {
+      sending.delete(id);
+    }
+  };
+
+  // One attempt at sending a pending submission's email. The caller holds
+  // the sending claim.
+  const attemptDelivery = async (id) => {
+    const submission = await submissions.get(id);
+    if (!submission || !PENDING_STATUSES.includes(submission.status)) return submission;
+
+    const attempts = (submission.email?.attempts || 0) + 1;
+    const attemptedAt = new Date().toISOString();
+
+    try {
+      const info = await mailTransport.send(await composeEmail(submission));
+
+      console.log(`Email for submission ${id} sent:`, info.messageId);
+      return await submissions.update(id, {
+        status: 'emailed',
+        email: { attempts, lastAttemptAt: attemptedAt, messageId: info.messageId, sentAt: new Date().toISOString() }
+      });
+    } catch (error) {
+      const message = error.message || 'Failed to send email';
+
+      if (attempts >= settings.maxAttempts) {
+        console.error(`Email for submission ${id} failed ${attempts} times, giving up:`, message);
+        return await submissions.update(id, {
+          status: 'email_failed',
+          email: { attempts, lastAttemptAt: attemptedAt, error: message, failedAt: attemptedAt }
+        });
+      }
+
+      const nextAttemptAt = Date.now() + getRetryDelay(attempts, settings);
+      console.error(`Email for submission ${id} failed (attempt ${attempts} of ${settings.maxAttempts}), retrying at ${new Date(nextAttemptAt).toISOString()}:`, message);
+      pending.set(id, nextAttemptAt);
+      return await submissions.update(id, {
+        status: 'email_retrying',
+        email: { attempts, lastAttemptAt: attemptedAt, error: message, nextAttemptAt: new Date(nextAttemptAt).toISOString() }
+      });
+    }
+  };
+
+  const deliver = (id) => withSendingClaim(id, () => attemptDelivery(id));
+
+  // Errors are logged rather than thrown, as nobody is waiting on a
+  // background attempt
+  const deliverInBackground = (id) => {
+    deliver(id).catch(error => {
+      console.error(`Error sending email for submission ${id}:`, error);
+    });
+  };
+
+  const processDue = () => {
+    const now = Date.now();
+    for (const [id, nextAttemptAt] of pending) {
+      if (nextAttemptAt <= now) deliverInBackground(id);
+    }
+  };
+
+  // Queue a freshly stored submission and make the first attempt straight away
+  const enqueue = (submission) => {
+    pending.set(submission.id, Date.now());
+    deliverInBackground(submission.id);
+  };
+
+  // Admin action: start the retries over for any submission, including one
+  // already emailed. Resolves once the first new attempt has been made.
+  const resend = async (id) => {
+    const result = await withSendingClaim(id, async () => {
+      const submission = await submissions.get(id);
+      if (!submission) return { submission: null };
+
+      await submissions.update(id, { status: 'received', email: null });
+      return { submission: await attemptDelivery(id) };
+    });
+
+    // Already being sent: report it as it stands
+    return result ? result.submission : submissions.get(id);
+  };
+
+  // Pick up submissions left pending by the last run and start polling
+  const start = async () => {
+    const all = await submissions.list();
+    for (const submission of all) {
+      if (!PENDING_STATUSES.includes(submission.status)) continue;
+      const nextAttemptAt = Date.parse(submission.email?.nextAttemptAt || '') || Date.now();
+      pending.set(submission.id, nextAttemptAt);
+    }
+    if (pending.size > 0) {
+      console.log(`Resuming ${pending.size} queued submission email(s)`);
+    }
+
+    processDue();
+    timer = setInterval(processDue, settings.pollIntervalMs);
+    timer.unref();
+  };
+
+  const stop = () => {
+    clearInterval(timer);
+    timer = null;
+  };
+
+  return { enqueue, resend, start, stop };
+};
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createEmailOutbox } from './emailOutbox.js';
+
+const MINUTE_MS = 60 * 1000;
+
+// In-memory stand-in for the submission store
+const createSubmissions = (...records) => {
+  const byId = new Map(records.map(record => [record.id, record]));
+  return {
+    get: async (id) => byId.get(id) || null,
+    update: async (id, changes) => {
+      const updated = { ...byId.get(id), ...changes };
+      byId.set(id, updated);
+      return updated;
+    },
+    list: async () => [...byId.values()]
+  };
+};
+
+// Let background deliveries finish. Only the clock and polling are faked.
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('createEmailOutbox', () => {
+  let outbox;
+
+  const createOutbox = (submissions, send, options = {}) => {
+    outbox = createEmailOutbox({
+      submissions,
+      mailTransport: { send },
+      composeEmail: async (submission) => ({ to: 'agency@example.com', subject: submission.id }),
+      maxAttempts: 3,
+      pollIntervalMs: 1000,
+      ...options
+    });
+    return outbox;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    outbox?.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('emails a queued submission straight away', async () => {
+    const submissions = createSubmissions({ id: 's1', status: 'received' });
+    const send = vi.fn(async () => ({ messageId: 'm1' }));
+    createOutbox(submissions, send).enqueue({ id: 's1' });
+    await settle();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(await submissions.get('s1')).toMatchObject({ status: 'emailed', email: { attempts: 1, messageId: 'm1' } });
+  });
+
+  it('retries with a doubling delay and gives up after maxAttempts', async () => {
+    const submissions = createSubmissions({ id: 's1', status: 'received' });
+    const send = vi.fn(async () => { throw new Error('SMTP down'); });
+    const queue = createOutbox(submissions, send);
+    await queue.start();
+    queue.enqueue({ id: 's1' });
+    await settle();
+
+    expect(await submissions.get('s1')).toMatchObject({
+      status: 'email_retrying',
+      email: { attempts: 1, error: 'SMTP down', nextAttemptAt: new Date(Date.now() + MINUTE_MS).toISOString() }
+    });
+
+    vi.advanceTimersByTime(MINUTE_MS - 1000);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1000);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(2);
+    expect((await submissions.get('s1')).email.nextAttemptAt).toBe(new Date(Date.now() + 2 * MINUTE_MS).toISOString());
+
+    vi.advanceTimersByTime(2 * MINUTE_MS);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(await submissions.get('s1')).toMatchObject({ status: 'email_failed', email: { attempts: 3, error: 'SMTP down' } });
+
+    // Dead letters stay put until an admin resends them
+    vi.advanceTimersByTime(60 * MINUTE_MS);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('caps the retry delay', async () => {
+    const submissions = createSubmissions({ id: 's1', status: 'email_retrying', email: { attempts: 4 } });
+    const send = vi.fn(async () => { throw new Error('SMTP down'); });
+    await createOutbox(submissions, send, { maxAttempts: 10, maxRetryDelayMs: 5 * MINUTE_MS }).start();
+    await settle();
+
+    expect((await submissions.get('s1')).email.nextAttemptAt).toBe(new Date(Date.now() + 5 * MINUTE_MS).toISOString());
+  });
+
+  it('resumes submissions left pending by the last run when they are due', async () => {
+    const submissions = createSubmissions(
+      { id: 'due', status: 'received' },
+      { id: 'later', status: 'email_retrying', email: { attempts: 1, nextAttemptAt: new Date(Date.now() + MINUTE_MS).toISOString() } },
+      { id: 'sent', status: 'emailed' }
+    );
+    const send = vi.fn(async () => ({ messageId: 'm1' }));
+    await createOutbox(submissions, send).start();
+    await settle();
+
+    expect(send.mock.calls.map(([mail]) => mail.subject)).toEqual(['due']);
+
+    vi.advanceTimersByTime(MINUTE_MS);
+    await settle();
+    expect(send.mock.calls.map(([mail]) => mail.subject)).toEqual(['due', 'later']);
+  });
+
+  it('starts the retries over on resend', async () => {
+    const submissions = createSubmissions({ id: 's1', status: 'email_failed', email: { attempts: 3, error: 'SMTP down' } });
+    const send = vi.fn(async () => ({ messageId: 'm2' }));
+
+    const submission = await createOutbox(submissions, send).resend('s1');
+
+    expect(submission).toMatchObject({ status: 'emailed', email: { attempts: 1, messageId: 'm2' } });
+  });
+
+  it('never sends the same email twice at once', async () => {
+    const submissions = createSubmissions({ id: 's1', status: 'received' });
+    let finishSending;
+    const send = vi.fn(() => new Promise(resolve => { finishSending = () => resolve({ messageId: 'm1' }); }));
+    const queue = createOutbox(submissions, send);
+
+    queue.enqueue({ id: 's1' });
+    const resent = queue.resend('s1');
+    await settle();
+    finishSending();
+
+    expect((await resent).status).toBe('received');
+    await settle();
+    expect(send).toHaveBeenCalledTimes(1);
+    expect((await submissions.get('s1')).status).toBe('emailed');
+  });
+});
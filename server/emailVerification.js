@@ -0,0 +1,180 @@
+import express from 'express';
+import crypto from 'crypto';
+
+// Checks that a candidate's email address is right before they submit. A
+// 6-digit code is emailed to them, and entering it gives the editor a token
+// to send with the submission, which then records the address as verified.
+//
+// Codes are only kept in memory: one lost to a restart is simply sent again.
+// Tokens are signed, so they stay valid across restarts when
+// EMAIL_VERIFICATION_SECRET is set.
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const MAX_ATTEMPTS = 5;
+const TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// A refused request. `code` is stable for clients to switch on, `message` is
+// for people.
+export class VerificationError extends Error {
+  constructor(code, message, status = 400) {
+    super(message);
+    this.name = 'VerificationError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export const normalizeEmail = (email) => String(email || '').trim().toLowerCase();
+
+const hashCode = (code) => crypto.createHash('sha256').update(code).digest();
+
+const toBase64Url = (value) => Buffer.from(value).toString('base64url');
+
+export const createEmailVerification = ({ mailTransport, secret }) => {
+  const signingKey = secret || crypto.randomBytes(32).toString('hex');
+  if (!secret) {
+    console.warn('EMAIL_VERIFICATION_SECRET is not set, email verifications will not survive a restart');
+  }
+
+  // `${tenantId}:${email}` -> { codeHash, expiresAt, sentAt, attempts }
+  const codes = new Map();
+
+  const sign = (payload) => crypto.createHmac('sha256', signingKey).update(payload).digest('base64url');
+
+  const parseEmail = (email) => {
+    const normalized = normalizeEmail(email);
+    if (!EMAIL_PATTERN.test(normalized) || normalized.length > 254) {
+      throw new VerificationError('invalid_email', 'Please enter a valid email address');
+    }
+    return normalized;
+  };
+
+  // Email a new code, replacing any earlier one for the address
+  const sendCode = async ({ email, tenant, from }) => {
+    const address = parseEmail(email);
+    const key = `${tenant.id}:${address}`;
+    const existing = codes.get(key);
+    const now = Date.now();
+
+    if (existing && now - existing.sentAt < RESEND_COOLDOWN_MS) {
+      const waitSeconds = Math.ceil((existing.sentAt + RESEND_COOLDOWN_MS - now) / 1000);
+      throw new VerificationError('code_recently_sent', `Please wait ${waitSeconds} seconds before asking for another code`, 429);
+    }
+
+    const code = String(crypto.randomInt(0, 1000000)).padStart(6, '0');
+    codes.set(key, { codeHash: hashCode(code), expiresAt: now + CODE_TTL_MS, sentAt: now, attempts: 0 });
+
+    try {
+      await mailTransport.send({
+        from,
+        to: address,
+        subject: `Your ${tenant.appTitle} verification code: ${code}`,
+        html: `
+          <p style="font-family: Arial, sans-serif; font-size: 14px;">Your verification code is:</p>
+          <p style="font-family: Arial, sans-serif; font-size: 28px; font-weight: bold; letter-spacing: 4px;">${code}</p>
+          <p style="font-family: Arial, sans-serif; font-size: 14px;">Enter it in the ${tenant.appTitle} to confirm this is your email address. It expires in ${CODE_TTL_MS / 60000} minutes.</p>
+          <p style="font-family: Arial, sans-serif; font-size: 12px; color: #6b7280;">If you did not ask for this code, you can ignore this email.</p>
+        `
+      });
+    } catch (error) {
+      codes.delete(key);
+      throw error;
+    }
+
+    return { expiresInSeconds: CODE_TTL_MS / 1000 };
+  };
+
+  // Check a code and return a token proving the address was verified
+  const verifyCode = ({ email, tenant, code }) => {
+    const address = parseEmail(email);
+    const key = `${tenant.id}:${address}`;
+    const entry = codes.get(key);
+
+    if (!entry || entry.expiresAt < Date.now()) {
+      codes.delete(key);
+      throw new VerificationError('code_expired', 'This code has expired. Please ask for a new one.');
+    }
+    if (entry.attempts >= MAX_ATTEMPTS) {
+      throw new VerificationError('too_many_attempts', 'Too many wrong codes. Please ask for a new one.', 429);
+    }
+
+    entry.attempts++;
+    if (!/^\d{6}$/.test(String(code)) || !crypto.timingSafeEqual(hashCode(String(code)), entry.codeHash)) {
+      throw new VerificationError('invalid_code', 'That code is not right. Please check it and try again.');
+    }
+
+    codes.delete(key);
+    const payload = toBase64Url(JSON.stringify({ email: address, tenantId: tenant.id, exp: Date.now() + TOKEN_TTL_MS }));
+    return { token: `${payload}.${sign(payload)}` };
+  };
+
+  // Whether `token` verifies `email` for the tenant
+  const isVerified = ({ token, email, tenantId }) => {
+    if (typeof token !== 'string') return false;
+
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return false;
+
+    const expected = Buffer.from(sign(payload));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return false;
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      return claims.email === normalizeEmail(email) && claims.tenantId === tenantId && claims.exp > Date.now();
+    } catch {
+      return false;
+    }
+  };
+
+  // Forget expired codes
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of codes) {
+      if (entry.expiresAt < now) codes.delete(key);
+    }
+  }, CODE_TTL_MS);
+  sweep.unref();
+
+  return { sendCode, verifyCode, isVerified };
+};
+
+// API for the editor under /api/email-verification. `getRequestTenant(req)`
+// gives the agency whose site sent the request and `getFromAddress(tenant)`
+// the address its emails come from.
+export const createEmailVerificationRouter = ({ verification, getRequestTenant, getFromAddress }) => {
+  const router = express.Router();
+
+  const sendError = (res, error, fallback) => {
+    if (error instanceof VerificationError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: `${fallback}. Please try again.`, code: 'internal_error' });
+  };
+
+  router.post('/send', async (req, res) => {
+    try {
+      const tenant = getRequestTenant(req);
+      const result = await verification.sendCode({ email: req.body?.email, tenant, from: getFromAddress(tenant) });
+      res.json({ success: true, ...result });
+    } catch (error) {
+      sendError(res, error, 'Failed to send the verification code');
+    }
+  });
+
+  router.post('/verify', (req, res) => {
+    try {
+      const tenant = getRequestTenant(req);
+      const result = verification.verifyCode({ email: req.body?.email, tenant, code: req.body?.code });
+      res.json({ success: true, ...result });
+    } catch (error) {
+      sendError(res, error, 'Failed to check the verification code');
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,139 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { writeFileAtomic } from './submissionStore.js';
+
+// Idempotency keys for the submission endpoints. The editor sends one
+// Idempotency-Key per draft, and the response to the first successful
+// request with a key is replayed for any repeat of it, so a double click or
+// a retry after a dropped connection never creates a second submission.
+//
+//   <dataDir>/idempotency/<sha256 of scope and key>.json
+//     { requestHash, status, body, createdAt }
+//
+// Requests without a key are handled as before.
+
+const KEY_PATTERN = /^[A-Za-z0-9_:-]{8,200}$/;
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const hashRequest = (...parts) => {
+  const hash = crypto.createHash('sha256');
+  for (const part of parts) {
+    hash.update(Buffer.isBuffer(part) ? part : JSON.stringify(part ?? null));
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+};
+
+export const createIdempotencyStore = (dataDir, { ttlMs = DEFAULT_TTL_MS } = {}) => {
+  const keysDir = path.join(dataDir, 'idempotency');
+  // Keys whose first request is still being handled
+  const inProgress = new Set();
+  // Records not yet known to be on disk, so a repeat is answered even while
+  // the first one is still being written
+  const pendingRecords = new Map();
+
+  const recordPath = (scopedKey) =>
+    path.join(keysDir, `${crypto.createHash('sha256').update(scopedKey).digest('hex')}.json`);
+
+  const isExpired = (record) => Date.now() - Date.parse(record.createdAt) > ttlMs;
+
+  const read = async (scopedKey) => {
+    if (pendingRecords.has(scopedKey)) return pendingRecords.get(scopedKey);
+    try {
+      const record = JSON.parse(await fs.readFile(recordPath(scopedKey), 'utf8'));
+      return isExpired(record) ? null : record;
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  const save = async (scopedKey, record) => {
+    await fs.mkdir(keysDir, { recursive: true });
+    await writeFileAtomic(recordPath(scopedKey), JSON.stringify(record, null, 2));
+  };
+
+  // Delete expired records
+  const prune = async () => {
+    let filenames;
+    try {
+      filenames = await fs.readdir(keysDir);
+    } catch (error) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const filename of filenames.filter(name => name.endsWith('.json'))) {
+      const filePath = path.join(keysDir, filename);
+      const record = JSON.parse(await fs.readFile(filePath, 'utf8').catch(() => 'null'));
+      if (!record || isExpired(record)) {
+        await fs.rm(filePath, { force: true });
+      }
+    }
+  };
+
+  // Middleware for a route. `getScope(req)` keeps keys from different
+  // endpoints or agencies apart, and `getRequestHash(req)` fingerprints the
+  // request so a key reused for different content is refused.
+  const middleware = ({ getScope, getRequestHash }) => async (req, res, next) => {
+    const key = req.get('Idempotency-Key');
+    if (key === undefined) return next();
+
+    if (!KEY_PATTERN.test(key)) {
+      return res.status(400).json({ error: 'The Idempotency-Key header is not valid', code: 'invalid_idempotency_key' });
+    }
+
+    const scopedKey = `${getScope(req)}:${key}`;
+    if (inProgress.has(scopedKey)) {
+      return res.status(409).json({
+        error: 'This submission is already being processed',
+        code: 'idempotency_request_in_progress'
+      });
+    }
+    // Claimed before anything is awaited, so two copies of a request arriving
+    // together cannot both get through
+    inProgress.add(scopedKey);
+    res.on('close', () => inProgress.delete(scopedKey));
+
+    try {
+      const requestHash = getRequestHash(req);
+      const record = await read(scopedKey);
+
+      if (record) {
+        inProgress.delete(scopedKey);
+        if (record.requestHash !== requestHash) {
+          return res.status(422).json({
+            error: 'This draft has already been submitted with different content. Please reload the page to submit it again.',
+            code: 'idempotency_key_reused'
+          });
+        }
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(record.status).json(record.body);
+      }
+
+      // Remember a successful response once the route sends it. Failures are
+      // not remembered, so the same key can be retried after one.
+      const json = res.json.bind(res);
+      res.json = (body) => {
+        const { statusCode } = res;
+        if (statusCode >= 200 && statusCode < 300) {
+          const newRecord = { requestHash, status: statusCode, body, createdAt: new Date().toISOString() };
+          pendingRecords.set(scopedKey, newRecord);
+          save(scopedKey, newRecord)
+            .catch(error => console.error('Error saving idempotency key:', error))
+            .finally(() => pendingRecords.delete(scopedKey));
+        }
+        inProgress.delete(scopedKey);
+        return json(body);
+      };
+
+      next();
+    } catch (error) {
+      inProgress.delete(scopedKey);
+      next(error);
+    }
+  };
+
+  return { middleware, prune };
+};
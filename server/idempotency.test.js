@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createIdempotencyStore } from './idempotency.js';
+
+const KEY = 'draft-0123456789';
+
+const createResponse = () => {
+  const res = new EventEmitter();
+  Object.assign(res, { headers: {}, statusCode: 200, body: null });
+  res.setHeader = (name, value) => { res.headers[name] = value; };
+  res.status = (code) => { res.statusCode = code; return res; };
+  res.json = (body) => { res.body = body; return res; };
+  return res;
+};
+
+// Run a request through the middleware. `next` stands in for the route.
+const send = async (middleware, { key = KEY, content = 'cv' } = {}, route = () => {}) => {
+  const req = { content, get: (name) => (name === 'Idempotency-Key' ? key : undefined) };
+  const res = createResponse();
+  const next = vi.fn(() => route(res));
+  await middleware(req, res, next);
+  return { res, next };
+};
+
+const respondOk = (res) => res.status(201).json({ success: true, id: 'submission-1' });
+
+describe('createIdempotencyStore', () => {
+  let dataDir;
+  let middleware;
+
+  const listRecords = () => fs.readdir(path.join(dataDir, 'idempotency')).catch(() => []);
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'idempotency-'));
+    middleware = createIdempotencyStore(dataDir).middleware({
+      getScope: () => 'submit-cv',
+      getRequestHash: (req) => req.content
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('passes requests without a key straight through', async () => {
+    const { next } = await send(middleware, { key: undefined });
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a malformed key', async () => {
+    const { res, next } = await send(middleware, { key: 'short' });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(400);
+    expect(res.body.code).toBe('invalid_idempotency_key');
+  });
+
+  it('replays the first successful response for a repeat', async () => {
+    await send(middleware, {}, respondOk);
+    const { res, next } = await send(middleware, {}, respondOk);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toEqual({ success: true, id: 'submission-1' });
+    expect(res.headers['Idempotent-Replayed']).toBe('true');
+  });
+
+  it('refuses a key reused for different content', async () => {
+    await send(middleware, {}, respondOk);
+    const { res, next } = await send(middleware, { content: 'another cv' }, respondOk);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(422);
+    expect(res.body.code).toBe('idempotency_key_reused');
+  });
+
+  it('refuses a repeat while the first request is still being handled', async () => {
+    const first = await send(middleware);
+    const { res, next } = await send(middleware);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(409);
+    expect(res.body.code).toBe('idempotency_request_in_progress');
+
+    // The key is free again once the first connection closes without an answer
+    first.res.emit('close');
+    expect((await send(middleware)).next).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets a key be retried after a failure', async () => {
+    await send(middleware, {}, (res) => res.status(500).json({ error: 'Failed' }));
+    const { next } = await send(middleware, {}, respondOk);
+
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps keys from different scopes apart', async () => {
+    await send(middleware, {}, respondOk);
+    const otherScope = createIdempotencyStore(dataDir).middleware({
+      getScope: () => 'send-cv',
+      getRequestHash: (req) => req.content
+    });
+
+    expect((await send(otherScope)).next).toHaveBeenCalledTimes(1);
+  });
+
+  it('remembers responses across restarts until they expire', async () => {
+    await send(middleware, {}, respondOk);
+    await vi.waitFor(async () => expect(await listRecords()).toHaveLength(1));
+
+    const restarted = createIdempotencyStore(dataDir);
+    const replay = await send(restarted.middleware({ getScope: () => 'submit-cv', getRequestHash: (req) => req.content }));
+    expect(replay.res.headers['Idempotent-Replayed']).toBe('true');
+
+    await createIdempotencyStore(dataDir, { ttlMs: -1 }).prune();
+    expect(await listRecords()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,120 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import { Resend } from 'resend';
+
+// Ways of sending email, picked with MAIL_TRANSPORT:
+//
+//   smtp   (default) nodemailer over SMTP, configured by EMAIL_HOST, EMAIL_PORT,
+//          EMAIL_SECURE, EMAIL_USER and EMAIL_PASS
+//   resend the Resend API, configured by RESEND_API_KEY
+//   file   writes each email to <dataDir>/outbox instead of sending it, for
+//          working offline. The emails can be read at /dev/mailbox.
+//
+// Every transport takes nodemailer-style mail options ({ from, to, subject,
+// html, attachments: [{ filename, content, contentType }] }) and resolves to
+// { messageId }, or rejects if the email could not be sent.
+
+const createSmtpTransport = (env) => {
+  const transporter = nodemailer.createTransport({
+    host: env.EMAIL_HOST || 'smtp.gmail.com',
+    port: parseInt(env.EMAIL_PORT || '587'),
+    secure: env.EMAIL_SECURE === 'true',
+    auth: {
+      user: env.EMAIL_USER,
+      pass: env.EMAIL_PASS
+    }
+  });
+
+  return {
+    name: 'smtp',
+    send: async (mailOptions) => {
+      const info = await transporter.sendMail(mailOptions);
+      if (!info || !info.messageId) {
+        throw new Error('Failed to send email');
+      }
+      return { messageId: info.messageId };
+    }
+  };
+};
+
+const createResendTransport = (env) => {
+  if (!env.RESEND_API_KEY) {
+    throw new Error('MAIL_TRANSPORT=resend needs RESEND_API_KEY');
+  }
+  const resend = new Resend(env.RESEND_API_KEY);
+
+  return {
+    name: 'resend',
+    send: async ({ from, to, subject, html, attachments = [] }) => {
+      const { data, error } = await resend.emails.send({
+        from,
+        to,
+        subject,
+        html,
+        attachments: attachments.map(({ filename, content, contentType }) => ({ filename, content, contentType }))
+      });
+      if (error || !data?.id) {
+        throw new Error(error?.message || 'Failed to send email');
+      }
+      return { messageId: data.id };
+    }
+  };
+};
+
+// Outbox layout, read by server/devMailboxRoutes.js:
+//
+//   <dataDir>/outbox/<id>.eml   the full message, attachments included
+//   <dataDir>/outbox/<id>.json  headers and HTML body for the mailbox viewer
+const createFileTransport = (env, { dataDir }) => {
+  const outboxDir = getOutboxDir(dataDir);
+  // Builds the MIME message without sending it anywhere
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  return {
+    name: 'file',
+    send: async (mailOptions) => {
+      const info = await transporter.sendMail(mailOptions);
+      // Sortable by time, so the newest email is listed first
+      const id = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+
+      await fs.mkdir(outboxDir, { recursive: true });
+      await fs.writeFile(path.join(outboxDir, `${id}.eml`), info.message);
+      await fs.writeFile(path.join(outboxDir, `${id}.json`), JSON.stringify({
+        id,
+        messageId: info.messageId,
+        sentAt: new Date().toISOString(),
+        from: mailOptions.from,
+        to: mailOptions.to,
+        subject: mailOptions.subject,
+        html: mailOptions.html,
+        attachments: (mailOptions.attachments || []).map(({ filename, contentType, content }) => ({
+          filename,
+          contentType,
+          size: content ? content.length : 0
+        }))
+      }, null, 2));
+
+      console.log(`Email written to the outbox as ${id}.eml`);
+      return { messageId: info.messageId };
+    }
+  };
+};
+
+const TRANSPORTS = {
+  smtp: createSmtpTransport,
+  resend: createResendTransport,
+  file: createFileTransport
+};
+
+export const getOutboxDir = (dataDir) => path.join(dataDir, 'outbox');
+
+export const createMailTransport = (env, options) => {
+  const name = (env.MAIL_TRANSPORT || 'smtp').toLowerCase();
+  const create = TRANSPORTS[name];
+  if (!create) {
+    throw new Error(`Unknown MAIL_TRANSPORT "${name}", expected one of: ${Object.keys(TRANSPORTS).join(', ')}`);
+  }
+  return create(env, options);
+};
@@ -0,0 +1,67 @@
+// In-memory sliding-window rate limits for the submission endpoints, so
+// scripts and repeated clicks cannot flood an agency's inbox. Counts are lost
+// on a restart, which only ever lets a few extra requests through.
+
+// Allows `max` hits per key in any `windowMs`
+export const createRateLimiter = ({ windowMs, max }) => {
+  const hits = new Map(); // key -> timestamps of recent hits, oldest first
+
+  const recentHits = (key, now) => (hits.get(key) || []).filter(time => time > now - windowMs);
+
+  // Record a hit for `key` unless it is over the limit. Returns whether it was
+  // allowed and, if not, how long until the next one will be.
+  const hit = (key) => {
+    const now = Date.now();
+    const recent = recentHits(key, now);
+
+    if (recent.length >= max) {
+      hits.set(key, recent);
+      return { allowed: false, retryAfterMs: recent[0] + windowMs - now };
+    }
+
+    recent.push(now);
+    hits.set(key, recent);
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  // Whether a hit for `key` would be allowed, without recording one
+  const check = (key) => {
+    const now = Date.now();
+    const recent = recentHits(key, now);
+    return recent.length >= max
+      ? { allowed: false, retryAfterMs: recent[0] + windowMs - now }
+      : { allowed: true, retryAfterMs: 0 };
+  };
+
+  // Forget keys with no recent hits so the map does not grow forever
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const key of hits.keys()) {
+      const recent = recentHits(key, now);
+      if (recent.length === 0) {
+        hits.delete(key);
+      } else {
+        hits.set(key, recent);
+      }
+    }
+  }, windowMs);
+  sweep.unref();
+
+  return { hit, check };
+};
+
+export const sendRateLimited = (res, retryAfterMs, message) => {
+  res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+  res.status(429).json({ error: message, code: 'rate_limited' });
+};
+
+// Middleware limiting requests per client IP. Behind a proxy req.ip is only
+// the client's address when Express is told to trust it, see TRUST_PROXY_HOPS.
+export const limitByIp = (limiter, message) => (req, res, next) => {
+  const { allowed, retryAfterMs } = limiter.hit(req.ip);
+  if (!allowed) {
+    console.error(`Rate limited ${req.method} ${req.path} from ${req.ip}`);
+    return sendRateLimited(res, retryAfterMs, message);
+  }
+  next();
+};
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter, limitByIp } from './rateLimit.js';
+
+const MINUTE_MS = 60 * 1000;
+
+const createResponse = () => {
+  const res = { headers: {}, statusCode: 200, body: null };
+  res.setHeader = (name, value) => { res.headers[name] = value; };
+  res.status = (code) => { res.statusCode = code; return res; };
+  res.json = (body) => { res.body = body; return res; };
+  return res;
+};
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows up to max hits per key in the window', () => {
+    const limiter = createRateLimiter({ windowMs: MINUTE_MS, max: 2 });
+
+    expect(limiter.hit('a').allowed).toBe(true);
+    expect(limiter.hit('a').allowed).toBe(true);
+    expect(limiter.hit('a')).toEqual({ allowed: false, retryAfterMs: MINUTE_MS });
+    expect(limiter.hit('b').allowed).toBe(true);
+  });
+
+  it('lets hits through again as old ones leave the window', () => {
+    const limiter = createRateLimiter({ windowMs: MINUTE_MS, max: 2 });
+    limiter.hit('a');
+    vi.advanceTimersByTime(20 * 1000);
+    limiter.hit('a');
+
+    vi.advanceTimersByTime(30 * 1000);
+    expect(limiter.hit('a')).toEqual({ allowed: false, retryAfterMs: 10 * 1000 });
+
+    vi.advanceTimersByTime(10 * 1000);
+    expect(limiter.hit('a').allowed).toBe(true);
+    expect(limiter.hit('a').allowed).toBe(false);
+  });
+
+  it('checks a key without counting a hit', () => {
+    const limiter = createRateLimiter({ windowMs: MINUTE_MS, max: 1 });
+
+    expect(limiter.check('a')).toEqual({ allowed: true, retryAfterMs: 0 });
+    expect(limiter.check('a').allowed).toBe(true);
+    limiter.hit('a');
+    expect(limiter.check('a')).toEqual({ allowed: false, retryAfterMs: MINUTE_MS });
+  });
+
+  it('does not count refused hits', () => {
+    const limiter = createRateLimiter({ windowMs: MINUTE_MS, max: 1 });
+    limiter.hit('a');
+    vi.advanceTimersByTime(30 * 1000);
+    limiter.hit('a');
+
+    vi.advanceTimersByTime(30 * 1000);
+    expect(limiter.hit('a').allowed).toBe(true);
+  });
+});
+
+describe('limitByIp', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('refuses requests over the limit with Retry-After', () => {
+    const middleware = limitByIp(createRateLimiter({ windowMs: MINUTE_MS, max: 1 }), 'Slow down');
+    const req = { ip: '203.0.113.1', method: 'POST', path: '/api/submit-cv' };
+    const next = vi.fn();
+
+    middleware(req, createResponse(), next);
+    expect(next).toHaveBeenCalledTimes(1);
+
+    const res = createResponse();
+    middleware(req, res, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe('60');
+    expect(res.body).toEqual({ error: 'Slow down', code: 'rate_limited' });
+  });
+});
@@ -0,0 +1,145 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+// File-based store for CV submissions. Each submission gets its own directory
+// holding submission.json (CVData plus metadata) and the rendered documents,
+// so nothing a candidate sends is lost if the email bounces or is deleted.
+//
+//   <dataDir>/submissions/<id>/submission.json
+//   <dataDir>/submissions/<id>/<name>_CV.docx
+//   <dataDir>/submissions/<id>/<name>_CV.pdf
+
+const SUBMISSION_FILE = 'submission.json';
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// Keep only the last path segment and characters that are safe in file names
+const sanitizeFilename = (filename) =>
+  path.basename(String(filename)).replace(/[^\w.\-]+/g, '_').replace(/^\.+/, '') || 'file';
+
+// Write to a temporary file first so a crash never leaves half a file behind.
+// Each write gets its own temporary file, so concurrent writes to the same
+// path cannot rename each other's half-written content into place.
+export const writeFileAtomic = async (filePath, content) => {
+  const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, content);
+  await fs.rename(tempPath, filePath);
+};
+
+export const createSubmissionStore = (dataDir) => {
+  const submissionsDir = path.join(dataDir, 'submissions');
+
+  const submissionDir = (id) => {
+    if (!ID_PATTERN.test(id)) {
+      throw new Error(`Invalid submission id: ${id}`);
+    }
+    return path.join(submissionsDir, id);
+  };
+
+  const writeMetadata = (submission) =>
+    writeFileAtomic(path.join(submissionDir(submission.id), SUBMISSION_FILE), JSON.stringify(submission, null, 2));
+
+  // Persist a new submission. `files` maps a kind ("docx", "pdf") to
+  // { filename, content, contentType }.
+  const create = async ({ data, files, origin, tenantId, templateId, candidate }) => {
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+    const dir = submissionDir(id);
+
+    await fs.mkdir(dir, { recursive: true });
+
+    const storedFiles = {};
+    for (const [kind, file] of Object.entries(files)) {
+      const filename = sanitizeFilename(file.filename);
+      await writeFileAtomic(path.join(dir, filename), file.content);
+      storedFiles[kind] = {
+        filename,
+        contentType: file.contentType,
+        size: file.content.length
+      };
+    }
+
+    const submission = {
+      id,
+      createdAt: now,
+      updatedAt: now,
+      status: 'received',
+      origin: origin || null,
+      tenantId,
+      templateId: templateId || null,
+      candidate,
+      files: storedFiles,
+      email: null,
+      data: data || null
+    };
+
+    await writeMetadata(submission);
+    return submission;
+  };
+
+  const get = async (id) => {
+    try {
+      const json = await fs.readFile(path.join(submissionDir(id), SUBMISSION_FILE), 'utf8');
+      return JSON.parse(json);
+    } catch (error) {
+      if (error.code === 'ENOENT' || error.message.startsWith('Invalid submission id')) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  // Submission id -> promise of its latest update. Updates to one submission
+  // run one after another, so the email outbox and an admin resend never
+  // read the same version and overwrite each other's changes.
+  const updateQueues = new Map();
+
+  const update = (id, changes) => {
+    const previous = updateQueues.get(id) || Promise.resolve();
+    const next = previous.catch(() => {}).then(async () => {
+      const submission = await get(id);
+      if (!submission) {
+        throw new Error(`Submission ${id} not found`);
+      }
+
+      const updated = { ...submission, ...changes, id, updatedAt: new Date().toISOString() };
+      await writeMetadata(updated);
+      return updated;
+    });
+
+    updateQueues.set(id, next);
+    next.catch(() => {}).finally(() => {
+      if (updateQueues.get(id) === next) updateQueues.delete(id);
+    });
+    return next;
+  };
+
+  // Newest first
+  const list = async () => {
+    let ids;
+    try {
+      ids = await fs.readdir(submissionsDir);
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const submissions = await Promise.all(ids.filter(id => ID_PATTERN.test(id)).map(get));
+    return submissions
+      .filter(Boolean)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  };
+
+  const readFile = async (id, kind) => {
+    const submission = await get(id);
+    const file = submission?.files?.[kind];
+    if (!file) return null;
+
+    return {
+      ...file,
+      content: await fs.readFile(path.join(submissionDir(id), file.filename))
+    };
+  };
+
+  return { create, get, update, list, readFile };
+};
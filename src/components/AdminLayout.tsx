@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Link, Outlet } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { AdminAuthError, getAdminToken, setAdminToken, verifyAdminToken } from "@/utils/adminApi";
+import { AdminContext } from "@/hooks/useAdminContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, LogOut } from "lucide-react";
+
+// Shell for the recruiter dashboard. Asks for the admin token before showing
+// any of the nested /admin routes.
+const AdminLayout = () => {
+  const queryClient = useQueryClient();
+  const [token, setToken] = useState(getAdminToken);
+  const [tokenInput, setTokenInput] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const signOut = () => {
+    setAdminToken(null);
+    setToken(null);
+    queryClient.removeQueries({ queryKey: ["admin"] });
+  };
+
+  const handleError = (requestError: unknown) => {
+    if (requestError instanceof AdminAuthError) {
+      setError("Your session has expired. Please sign in again.");
+      signOut();
+    }
+  };
+
+  const handleSignIn = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      await verifyAdminToken(tokenInput);
+      setAdminToken(tokenInput);
+      setToken(tokenInput);
+      setTokenInput("");
+    } catch (signInError) {
+      console.error("Admin sign in failed:", signInError);
+      setError(signInError instanceof Error ? signInError.message : "Sign in failed");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 px-4">
+        <Card className="w-full max-w-sm">
+          <form onSubmit={handleSignIn}>
+            <CardHeader>
+              <CardTitle>Recruiter sign in</CardTitle>
+              <CardDescription>Enter the admin token to view CV submissions.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="admin-token">Admin token</Label>
+              <Input
+                id="admin-token"
+                type="password"
+                autoComplete="current-password"
+                value={tokenInput}
+                onChange={(e) => setTokenInput(e.target.value)}
+              />
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </CardContent>
+            <CardFooter>
+              <Button type="submit" className="w-full" disabled={!tokenInput || isVerifying}>
+                {isVerifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Sign in
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="border-b bg-white">
+        <div className="max-w-6xl mx-auto flex items-center justify-between px-4 py-3">
+          <Link to="/admin" className="text-lg font-semibold">
+            CV Submissions
+          </Link>
+          <Button variant="ghost" size="sm" onClick={signOut}>
+            <LogOut className="h-4 w-4 mr-2" /> Sign out
+          </Button>
+        </div>
+      </header>
+      <main className="max-w-6xl mx-auto px-4 py-6">
+        <Outlet context={{ signOut, handleError } satisfies AdminContext} />
+      </main>
+    </div>
+  );
+};
+
+export default AdminLayout;
@@ -0,0 +1,166 @@
+import {
+  CVDocumentDetailsSection,
+  CVDocumentEntry,
+  CVDocumentHistorySection,
+  CVDocumentModel,
+  CVDocumentSection
+} from "@/utils/cvDocumentModel";
+import { CVTemplate } from "@/utils/cvTemplates";
+import RichText from "@/components/RichText";
+import { CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+
+interface CVDocumentViewProps {
+  model: CVDocumentModel;
+}
+
+const DetailsSection = ({ section, asHeader }: { section: CVDocumentDetailsSection; asHeader: boolean }) => {
+  if (asHeader) {
+    return (
+      <div className="text-center">
+        {section.lines.map((line, index) => (
+          <p key={index} className="text-sm">{line}</p>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-3">{section.heading}</h3>
+      {section.lines.map((line, index) => (
+        <p key={index} className="text-sm mb-1">{line}</p>
+      ))}
+    </div>
+  );
+};
+
+const EntryContent = ({ entry, template, showDates }: { entry: CVDocumentEntry; template: CVTemplate; showDates: boolean }) => (
+  <>
+    <div className="font-semibold">
+      {entry.label}: {entry.heading}
+    </div>
+    {showDates && <div className="text-sm italic">{entry.dateRange}</div>}
+    <div className="text-sm italic mb-2">{entry.title}</div>
+    {entry.description && (
+      <RichText
+        html={entry.description}
+        className={cn("text-sm prose prose-sm max-w-none", template.layout === "standard" && "pl-4")}
+      />
+    )}
+    {entry.reasonForLeaving && (
+      <p className={cn("text-sm mt-1", template.layout === "standard" && "pl-4")}>
+        <span className="font-semibold">Reason for leaving:</span> {entry.reasonForLeaving}
+      </p>
+    )}
+  </>
+);
+
+// An entry with the entries held at the same time shown beside it
+const EntryWithConcurrent = ({ entry, template, showDates }: { entry: CVDocumentEntry; template: CVTemplate; showDates: boolean }) => {
+  if (entry.concurrent.length === 0) {
+    return <EntryContent entry={entry} template={template} showDates={showDates} />;
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+      <div>
+        <EntryContent entry={entry} template={template} showDates={showDates} />
+      </div>
+      <div className="space-y-4 sm:border-l sm:pl-6">
+        {entry.concurrent.map((concurrentEntry) => (
+          <div key={concurrentEntry.id}>
+            <EntryContent entry={concurrentEntry} template={template} showDates />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const HistorySection = ({ section, template }: { section: CVDocumentHistorySection; template: CVTemplate }) => {
+  if (template.layout === "table") {
+    return (
+      <div>
+        <h3 className="text-lg font-semibold mb-3">{section.heading}</h3>
+        <table className="w-full text-sm">
+          <tbody>
+            {section.entries.map((entry) => (
+              <tr key={entry.id} className="border-b align-top">
+                <td className="w-1/4 py-3 pr-4 italic">{entry.dateRange}</td>
+                <td className="py-3">
+                  <EntryWithConcurrent entry={entry} template={template} showDates={false} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-3">{section.heading}</h3>
+      <div className="space-y-8">
+        {section.entries.map((entry) => (
+          <div key={entry.id} className="border-b pb-6">
+            <EntryWithConcurrent entry={entry} template={template} showDates />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const Section = ({ section, index, template }: { section: CVDocumentSection; index: number; template: CVTemplate }) => {
+  return section.kind === "details"
+    ? <DetailsSection section={section} asHeader={index === 0 && template.layout !== "two-column"} />
+    : <HistorySection section={section} template={template} />;
+};
+
+// React renderer for the shared CV document model, laid out like the DOCX and PDF
+const CVDocumentView = ({ model }: CVDocumentViewProps) => {
+  const { template } = model;
+
+  return (
+    <>
+      <CardHeader className="text-center">
+        {model.branding.header && (
+          <p className="text-xs text-muted-foreground mb-2">{model.branding.header}</p>
+        )}
+        <CardTitle className="text-2xl font-bold uppercase" style={{ color: model.branding.headingColor }}>
+          {model.title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <h2 className="text-xl font-bold text-center">{model.name}</h2>
+
+        {template.layout === "two-column" ? (
+          <div className="grid grid-cols-1 md:grid-cols-[30%_1fr] gap-6">
+            <div className="space-y-6">
+              {model.sections.filter(section => section.kind === "details").map((section, index) => (
+                <Section key={section.kind} section={section} index={index} template={template} />
+              ))}
+            </div>
+            <div className="space-y-6">
+              {model.sections.filter(section => section.kind !== "details").map((section, index) => (
+                <Section key={section.kind} section={section} index={index} template={template} />
+              ))}
+            </div>
+          </div>
+        ) : (
+          model.sections.map((section, index) => (
+            <Section key={section.kind} section={section} index={index} template={template} />
+          ))
+        )}
+
+        {model.branding.footer && (
+          <p className="text-xs text-center text-muted-foreground">{model.branding.footer}</p>
+        )}
+      </CardContent>
+    </>
+  );
+};
+
+export default CVDocumentView;
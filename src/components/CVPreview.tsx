@@ -1,8 +1,24 @@
-import { useEffect, useRef, useState } from "react";
-import { format, parseISO } from "date-fns";
-import { CVData, formatDateForDisplay, parseDateString, sendCVDocument } from "@/utils/cvUtils";
-import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { CVData } from "@/utils/cvUtils";
+import { sendCVDocument } from "@/utils/cvDocuments";
+import { CVValidationError, SubmissionInProgressError, SubmissionRateLimitError } from "@/utils/api";
+import { CVFileIssue, toCVFileIssuesFromValidation } from "@/utils/cvSchema";
+import { validateCVData } from "@/utils/validation";
+import { buildCVDocumentModel } from "@/utils/cvDocumentModel";
+import { buildComplianceReport } from "@/utils/compliance";
+import { findPlausibilityWarnings } from "@/utils/plausibility";
+import { getStoredVerificationToken } from "@/utils/emailVerification";
+import { CV_TEMPLATES, DEFAULT_TEMPLATE_ID } from "@/utils/cvTemplates";
+import { useTenant } from "@/hooks/useTenant";
+import { usePolicy } from "@/hooks/usePolicy";
+import CVDocumentView from "@/components/CVDocumentView";
+import ComplianceChecklist from "@/components/ComplianceChecklist";
+import PlausibilityWarnings from "@/components/PlausibilityWarnings";
+import EmailVerification from "@/components/EmailVerification";
+import { Card, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Send, ArrowLeft, Loader2, Check } from "lucide-react";
 import { toast } from "sonner";
 import "@/styles/no-select.css";
@@ -11,13 +27,37 @@ interface CVPreviewProps {
   data: CVData;
   onBack: () => void;
   onDownload: () => void;
+  submissionKey?: string; // idempotency key of the draft being submitted
+  renewSubmissionKey?: () => string;
+  onSubmitted?: () => void;
 }
 
-const CVPreview = ({ data, onBack, onDownload }: CVPreviewProps) => {
+const CVPreview = ({ data, onBack, onDownload, submissionKey, renewSubmissionKey, onSubmitted }: CVPreviewProps) => {
   const previewRef = useRef<HTMLDivElement>(null);
-  const { personalInfo, entries } = data;
+  const { personalInfo } = data;
+  const tenant = useTenant();
+  const policy = usePolicy(tenant);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const documentModel = useMemo(
+    () => buildCVDocumentModel(data, templateId, tenant.id),
+    [data, templateId, tenant.id]
+  );
+  const complianceReport = useMemo(
+    () => buildComplianceReport(data, policy),
+    [data, policy]
+  );
+  const plausibilityWarnings = useMemo(
+    () => findPlausibilityWarnings(data.entries, personalInfo.dateOfBirth),
+    [data.entries, personalInfo.dateOfBirth]
+  );
   const [isSending, setIsSending] = useState(false);
   const [isButtonDisabled, setIsButtonDisabled] = useState(false);
+  const [submissionId, setSubmissionId] = useState<string | null>(null);
+  // Candidates who give an email must verify it before submitting
+  const [emailVerificationToken, setEmailVerificationToken] = useState(
+    () => getStoredVerificationToken(personalInfo.email)
+  );
+  const needsEmailVerification = !!personalInfo.email && !emailVerificationToken;
 
   useEffect(() => {
     // Add entrance animation
@@ -35,32 +75,37 @@ const CVPreview = ({ data, onBack, onDownload }: CVPreviewProps) => {
     document.addEventListener('selectstart', disableTextSelection);
     document.addEventListener('contextmenu', disableTextSelection);
     
-    const lastSubmissionTime = localStorage.getItem('lastSubmissionTime');
-    if (lastSubmissionTime) {
-      const timeElapsed = Date.now() - Number(lastSubmissionTime);
-      if (timeElapsed < 0 * 60 * 60 * 1000) { // 24 hours in milliseconds
-        setIsButtonDisabled(true);
-      }
-    }
-    
     return () => {
       document.removeEventListener('selectstart', disableTextSelection);
       document.removeEventListener('contextmenu', disableTextSelection);
     };
   }, []);
 
-  const formatDOB = (dob: string) => {
-    try {
-      const isoDate = parseDateString(dob);
-      return isoDate ? format(parseISO(isoDate), "dd/MM/yyyy") : dob;
-    } catch (error) {
-      return dob;
-    }
+  const showValidationIssues = (issues: CVFileIssue[]) => {
+    toast.error("Your CV could not be submitted. Please go back to the editor and fix:", {
+      description: (
+        <ul className="list-disc pl-4">
+          {issues.map((issue, index) => (
+            <li key={index}>{issue.path}: {issue.message}</li>
+          ))}
+        </ul>
+      ),
+      style: { backgroundColor: '#fee2e2', color: '#dc2626' }
+    });
   };
 
   const handleSendClick = async () => {
-    if (!personalInfo.firstName || !personalInfo.lastName) {
-      toast.error("Please fill in your name before sending the CV");
+    // The server checks the same rules, but there is no need to send a CV it will reject
+    const issues = toCVFileIssuesFromValidation(validateCVData(data, policy));
+    if (issues.length > 0) {
+      showValidationIssues(issues);
+      return;
+    }
+
+    if (needsEmailVerification) {
+      toast.error("Please verify your email address before submitting", {
+        style: { backgroundColor: '#fee2e2', color: '#dc2626' }
+      });
       return;
     }
 
@@ -68,13 +113,37 @@ const CVPreview = ({ data, onBack, onDownload }: CVPreviewProps) => {
     
     try {
       console.log('Sending CV for', personalInfo.firstName, personalInfo.lastName);
-      await sendCVDocument(data);
+      const id = await sendCVDocument(data, {
+        templateId,
+        idempotencyKey: submissionKey,
+        renewIdempotencyKey: renewSubmissionKey,
+        emailVerificationToken
+      });
       console.log('CV sent successfully');
-      toast.success("CV Submitted Successfully!");
+      setSubmissionId(id);
+      toast.success("CV Submitted Successfully!", {
+        description: `Your reference is ${id}`
+      });
       setIsButtonDisabled(true);
-      localStorage.setItem('lastSubmissionTime', String(Date.now()));
+      onSubmitted?.();
     } catch (error) {
       console.error('Error sending CV:', error);
+      if (error instanceof CVValidationError) {
+        showValidationIssues(error.issues);
+        return;
+      }
+      if (error instanceof SubmissionInProgressError) {
+        toast(error.message, {
+          style: { backgroundColor: '#fef3c7', color: '#ca8a04' }
+        });
+        return;
+      }
+      if (error instanceof SubmissionRateLimitError) {
+        toast.error(error.message, {
+          style: { backgroundColor: '#fee2e2', color: '#dc2626' }
+        });
+        return;
+      }
       toast.error("Failed to submit CV. Kindly Click Back to editor, refresh your internet connection and re-submit.");
     } finally {
       setIsSending(false);
@@ -83,72 +152,48 @@ const CVPreview = ({ data, onBack, onDownload }: CVPreviewProps) => {
 
   return (
     <div className="container mx-auto p-4" ref={previewRef}>
-      <Button 
-        className="mb-4" 
-        variant="outline" 
-        onClick={onBack}
-      >
-        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Editor
-      </Button>
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-4">
+        <Button 
+          variant="outline" 
+          onClick={onBack}
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back to Editor
+        </Button>
+
+        <div className="space-y-1 sm:w-64">
+          <Label htmlFor="cv-template">Template</Label>
+          <Select value={templateId} onValueChange={setTemplateId}>
+            <SelectTrigger id="cv-template">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CV_TEMPLATES.map((template) => (
+                <SelectItem key={template.id} value={template.id}>
+                  {template.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{documentModel.template.description}</p>
+        </div>
+      </div>
       
+      <ComplianceChecklist report={complianceReport} className="mb-4" />
+      <PlausibilityWarnings warnings={plausibilityWarnings} entries={data.entries} className="mb-4" />
+
       <Card className="border shadow-lg mb-6 no-select">
-        <CardHeader className="text-center">
-          <CardTitle className="text-2xl font-bold uppercase">Curriculum Vitae</CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-6">
-          <div className="text-center">
-            <h2 className="text-xl font-bold">{personalInfo.firstName} {personalInfo.lastName}</h2>
-            {personalInfo.dateOfBirth && (
-              <p className="text-sm">Date of Birth: {formatDOB(personalInfo.dateOfBirth)}</p>
-            )}
-            {personalInfo.address && (
-              <p className="text-sm">
-                {personalInfo.address}
-                {personalInfo.postcode && `, ${personalInfo.postcode}`}
-              </p>
-            )}
-            {(personalInfo.email || personalInfo.phone) && (
-              <p className="text-sm">
-                {personalInfo.email && personalInfo.email}
-                {personalInfo.email && personalInfo.phone && " | "}
-                {personalInfo.phone && personalInfo.phone}
-              </p>
-            )}
-          </div>
-          
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Chronological History</h3>
-            <div className="space-y-8">
-              {entries
-                .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())
-                .map((entry) => (
-                  <div key={entry.id} className="border-b pb-6">
-                    <div>
-                      <span className="font-medium">
-                        {entry.type === "education" ? "Education" : entry.type === "work" ? "Work Experience" : "Gap/Break"}:
-                      </span>{" "}
-                      <span className="font-medium">
-                        {entry.organization}
-                        {entry.country && ` ${entry.country}`}
-                      </span>
-                    </div>
-                    <div className="text-sm italic">
-                      {formatDateForDisplay(entry.startDate)} - {formatDateForDisplay(entry.endDate)}
-                    </div>
-                    <div className="text-sm italic mb-2">{entry.title}</div>
-                    <div 
-                      className="text-sm pl-4 prose prose-sm max-w-none"
-                      dangerouslySetInnerHTML={{ __html: entry.description }}
-                    />
-                  </div>
-                ))}
-            </div>
-          </div>
-        </CardContent>
-        <CardFooter className="flex justify-center">
+        <CVDocumentView model={documentModel} />
+        <CardFooter className="flex flex-col items-center gap-2">
+          {personalInfo.email && !isButtonDisabled && (
+            <EmailVerification
+              email={personalInfo.email}
+              isVerified={!!emailVerificationToken}
+              onVerified={setEmailVerificationToken}
+            />
+          )}
           <Button 
             onClick={handleSendClick}
-            disabled={isSending || isButtonDisabled}
+            disabled={isSending || isButtonDisabled || needsEmailVerification}
             variant={isButtonDisabled ? "outline" : "default"}
             className={isButtonDisabled ? "bg-green-50 text-green-700 border-green-200" : ""}
           >
@@ -169,6 +214,11 @@ const CVPreview = ({ data, onBack, onDownload }: CVPreviewProps) => {
               </>
             )}
           </Button>
+          {submissionId && (
+            <p className="text-sm text-muted-foreground">
+              Submission reference: <span className="font-mono">{submissionId}</span>
+            </p>
+          )}
         </CardFooter>
       </Card>
     </div>
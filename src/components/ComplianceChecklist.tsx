@@ -0,0 +1,50 @@
+import { ComplianceReport } from "@/utils/compliance";
+import { cn } from "@/lib/utils";
+import { CheckCircle2, XCircle } from "lucide-react";
+
+interface ComplianceChecklistProps {
+  report: ComplianceReport;
+  className?: string;
+}
+
+// Pass/fail list of the safer-recruitment checks the agency will see
+const ComplianceChecklist = ({ report, className }: ComplianceChecklistProps) => (
+  <div
+    className={cn(
+      "rounded-md border p-4",
+      report.passed ? "border-green-200 bg-green-50" : "border-amber-200 bg-amber-50",
+      className
+    )}
+  >
+    <h3 className="font-medium mb-1">Safer recruitment checks</h3>
+    <p className="text-sm text-muted-foreground mb-3">
+      {report.passed
+        ? "This employment history meets safer recruitment requirements."
+        : "Anything marked as failing must be resolved before work can be offered."}
+    </p>
+    <ul className="space-y-2">
+      {report.checks.map((check) => (
+        <li key={check.id} className="flex items-start gap-2 text-sm">
+          {check.passed ? (
+            <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+          ) : (
+            <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+          )}
+          <div>
+            <span className="sr-only">{check.passed ? "Pass:" : "Fail:"}</span>
+            {check.label}
+            {check.details.length > 0 && (
+              <ul className="list-disc pl-4 text-muted-foreground">
+                {check.details.map((detail, index) => (
+                  <li key={index}>{detail}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default ComplianceChecklist;
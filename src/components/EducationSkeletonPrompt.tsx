@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { DEFAULT_SCHOOL_SYSTEM_ID, SCHOOL_SYSTEMS } from "@/utils/schoolSystems";
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GraduationCap } from "lucide-react";
+
+interface EducationSkeletonPromptProps {
+  onGenerate: (systemId: string) => void;
+}
+
+// Offers to add the candidate's school stages from their date of birth, for
+// them to fill in or delete
+const EducationSkeletonPrompt = ({ onGenerate }: EducationSkeletonPromptProps) => {
+  const [systemId, setSystemId] = useState(DEFAULT_SCHOOL_SYSTEM_ID);
+
+  return (
+    <Card className="border-l-4 border-l-primary">
+      <CardHeader className="py-3">
+        <CardTitle className="text-base">Start with your school history?</CardTitle>
+        <CardDescription>
+          We can add your school stages with the usual dates for your date of birth. You then fill in each school's name and details, or delete any that do not apply.
+        </CardDescription>
+      </CardHeader>
+      <CardFooter className="flex flex-col sm:flex-row sm:items-end gap-2 pb-3">
+        <div className="space-y-1 w-full sm:w-64">
+          <Label htmlFor="school-system">Where did you go to school?</Label>
+          <Select value={systemId} onValueChange={setSystemId}>
+            <SelectTrigger id="school-system">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCHOOL_SYSTEMS.map((system) => (
+                <SelectItem key={system.id} value={system.id}>
+                  {system.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button size="sm" onClick={() => onGenerate(systemId)}>
+          <GraduationCap className="h-4 w-4 mr-1" /> Add school entries
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default EducationSkeletonPrompt;
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { requestEmailVerificationCode, verifyEmailCode } from "@/utils/api";
+import { storeVerificationToken } from "@/utils/emailVerification";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { CheckCircle2, Loader2, Mail } from "lucide-react";
+import { toast } from "sonner";
+
+const CODE_LENGTH = 6;
+
+interface EmailVerificationProps {
+  email: string;
+  isVerified: boolean;
+  onVerified: (token: string) => void;
+}
+
+// Confirms the candidate's email address with a code sent to it, so the
+// agency can reach them. Shown above the submit button.
+const EmailVerification = ({ email, isVerified, onVerified }: EmailVerificationProps) => {
+  const [isCodeSent, setIsCodeSent] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [code, setCode] = useState("");
+
+  if (isVerified) {
+    return (
+      <p className="flex items-center gap-1 text-sm text-green-700">
+        <CheckCircle2 className="h-4 w-4" /> {email} is verified
+      </p>
+    );
+  }
+
+  const handleSendCode = async () => {
+    setIsSending(true);
+    try {
+      await requestEmailVerificationCode(email);
+      setIsCodeSent(true);
+      setCode("");
+      toast.success(`We have sent a code to ${email}`);
+    } catch (error) {
+      console.error("Error sending verification code:", error);
+      toast.error(error instanceof Error ? error.message : "Could not send the code", {
+        style: { backgroundColor: '#fee2e2', color: '#dc2626' }
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleVerify = async (value: string) => {
+    setIsVerifying(true);
+    try {
+      const token = await verifyEmailCode(email, value);
+      storeVerificationToken(email, token);
+      onVerified(token);
+      toast.success("Email verified");
+    } catch (error) {
+      console.error("Error verifying code:", error);
+      setCode("");
+      toast.error(error instanceof Error ? error.message : "Could not check the code", {
+        style: { backgroundColor: '#fee2e2', color: '#dc2626' }
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-center">
+      <p className="text-sm text-muted-foreground">
+        Please verify your email address so the agency can contact you. We will send a {CODE_LENGTH}-digit code to <strong>{email}</strong>.
+      </p>
+      {isCodeSent && (
+        <InputOTP
+          maxLength={CODE_LENGTH}
+          value={code}
+          onChange={setCode}
+          onComplete={handleVerify}
+          disabled={isVerifying}
+          inputMode="numeric"
+          pattern="^[0-9]+$"
+          autoFocus
+        >
+          <InputOTPGroup>
+            {Array.from({ length: CODE_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      )}
+      <Button variant={isCodeSent ? "ghost" : "outline"} size="sm" onClick={handleSendCode} disabled={isSending || isVerifying}>
+        {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+        {isCodeSent ? "Send a new code" : "Send code"}
+      </Button>
+    </div>
+  );
+};
+
+export default EmailVerification;
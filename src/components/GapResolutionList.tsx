@@ -0,0 +1,50 @@
+import { TimelineGap } from "@/utils/cvUtils";
+import { formatGapPeriod } from "@/utils/validation";
+import { formatYearMonth } from "@/utils/yearMonth";
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Check, PencilLine } from "lucide-react";
+
+interface GapResolutionListProps {
+  gaps: TimelineGap[];
+  thresholdMonths: number;
+  onExplain: (gap: TimelineGap) => void;
+  onAcknowledge: (gap: TimelineGap) => void;
+}
+
+// Gaps that must be explained with a gap entry or acknowledged before the CV
+// can be previewed
+const GapResolutionList = ({ gaps, thresholdMonths, onExplain, onAcknowledge }: GapResolutionListProps) => {
+  if (gaps.length === 0) return null;
+
+  return (
+    <div id="timeline-gaps" className="mt-4">
+      <h3 className="text-lg font-medium mb-1">Timeline Gaps</h3>
+      <p className="text-sm text-muted-foreground mb-2">
+        Please explain every gap longer than {thresholdMonths} {thresholdMonths === 1 ? "month" : "months"} before previewing your CV.
+      </p>
+      <div className="space-y-2">
+        {gaps.map((gap) => (
+          <Card key={`${formatYearMonth(gap.start)}-${formatYearMonth(gap.end)}`} className="border-l-4 border-l-amber-400">
+            <CardHeader className="py-3">
+              <CardTitle className="text-base">
+                Gap in Timeline ({gap.months} {gap.months === 1 ? "month" : "months"})
+              </CardTitle>
+              <CardDescription>{formatGapPeriod(gap)}</CardDescription>
+            </CardHeader>
+            <CardFooter className="flex justify-end space-x-2 pb-3">
+              <Button variant="ghost" size="sm" onClick={() => onAcknowledge(gap)}>
+                <Check className="h-4 w-4 mr-1" /> Acknowledge
+              </Button>
+              <Button size="sm" onClick={() => onExplain(gap)}>
+                <PencilLine className="h-4 w-4 mr-1" /> Explain this gap
+              </Button>
+            </CardFooter>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GapResolutionList;
@@ -0,0 +1,179 @@
+import * as React from "react";
+import { ChevronLeft, ChevronRight, CalendarIcon } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import {
+  DatePrecision,
+  MONTH_NAMES,
+  PartialDate,
+  SEASON_NAMES,
+  SEASON_START_MONTHS,
+  Season,
+  currentYearMonth,
+  formatDateForDisplay,
+  getPrecision,
+  seasonDate,
+  yearDate
+} from "@/utils/yearMonth";
+
+interface PartialDatePickerProps {
+  date: PartialDate | null;
+  setDate: (date: PartialDate) => void;
+  id?: string;
+  className?: string;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+const PRECISION_LABELS: Record<DatePrecision, string> = {
+  month: "Month",
+  season: "Season",
+  year: "Year"
+};
+
+// Years are picked from a page of twelve, like the months
+const YEARS_PER_PAGE = 12;
+
+// Picks a month, or just a season or year for dates the candidate only
+// roughly remembers, e.g. when they started primary school
+export function PartialDatePicker({
+  date,
+  setDate,
+  id,
+  className,
+  placeholder = "Select date",
+  disabled = false,
+}: PartialDatePickerProps) {
+  const [viewYear, setViewYear] = React.useState<number>(date?.year ?? currentYearMonth().year);
+  const [precision, setPrecision] = React.useState<DatePrecision>(date ? getPrecision(date) : "month");
+  const circa = !!date?.circa;
+
+  // Follow the date when it is changed from outside, e.g. by the form being reset
+  React.useEffect(() => {
+    if (date) {
+      setViewYear(date.year);
+      setPrecision(getPrecision(date));
+    }
+  }, [date]);
+
+  const isSelected = (candidate: PartialDate) =>
+    !!date &&
+    getPrecision(date) === getPrecision(candidate) &&
+    date.year === candidate.year &&
+    date.month === candidate.month;
+
+  const handleCircaToggle = (checked: boolean) => {
+    if (!date) return;
+    const { circa: _circa, ...rest } = date;
+    setDate(checked ? { ...rest, circa: true } : rest);
+  };
+
+  const firstPageYear = viewYear - (YEARS_PER_PAGE - 1);
+
+  const options: { key: string; label: string; value: PartialDate }[] =
+    precision === "year"
+      ? Array.from({ length: YEARS_PER_PAGE }, (_, index) => {
+          const year = firstPageYear + index;
+          return { key: String(year), label: String(year), value: yearDate(year, circa) };
+        })
+      : precision === "season"
+        ? (Object.keys(SEASON_START_MONTHS) as Season[]).map(season => ({
+            key: season,
+            label: SEASON_NAMES[season],
+            value: seasonDate(viewYear, season, circa)
+          }))
+        : MONTH_NAMES.map((month, index) => ({
+            key: month,
+            label: month.substring(0, 3),
+            value: { year: viewYear, month: index + 1, ...(circa && { circa }) }
+          }));
+
+  const step = precision === "year" ? YEARS_PER_PAGE : 1;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          className={cn(
+            "w-full justify-start text-left font-normal",
+            !date && "text-muted-foreground",
+            className
+          )}
+          disabled={disabled}
+        >
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {date ? formatDateForDisplay(date) : <span>{placeholder}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-4" align="start">
+        <div className="flex flex-col space-y-4">
+          {/* Precision selector */}
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(PRECISION_LABELS) as DatePrecision[]).map(option => (
+              <Button
+                key={option}
+                variant={precision === option ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setPrecision(option)}
+              >
+                {PRECISION_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+
+          {/* Year selector */}
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setViewYear(year => year - step)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="font-medium">
+              {precision === "year" ? `${firstPageYear} - ${viewYear}` : viewYear}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setViewYear(year => year + step)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {/* Month, season or year grid */}
+          <div className={cn("grid gap-2", precision === "season" ? "grid-cols-2" : "grid-cols-3")}>
+            {options.map(option => (
+              <Button
+                key={option.key}
+                variant={isSelected(option.value) ? "default" : "outline"}
+                className="text-sm"
+                onClick={() => setDate(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch
+              id={id ? `${id}-circa` : undefined}
+              checked={circa}
+              onCheckedChange={handleCircaToggle}
+              disabled={!date}
+            />
+            <Label htmlFor={id ? `${id}-circa` : undefined} className="text-sm cursor-pointer">
+              Approximate
+            </Label>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -18,6 +18,11 @@ const PersonalDetails = ({ personalInfo, onChange }: PersonalDetailsProps) => {
     personalInfo.dateOfBirth ? parseISO(personalInfo.dateOfBirth) : undefined
   );
 
+  // Keep the picker in sync when details are replaced, e.g. by restoring a draft
+  useEffect(() => {
+    setDobDate(personalInfo.dateOfBirth ? parseISO(personalInfo.dateOfBirth) : undefined);
+  }, [personalInfo.dateOfBirth]);
+
   const handleChange = (field: keyof PersonalInfo, value: string) => {
     onChange({ [field]: value });
   };
@@ -0,0 +1,44 @@
+import { TimelineEntry } from "@/utils/cvUtils";
+import { ValidationIssue } from "@/utils/validation";
+import { formatDateForDisplay } from "@/utils/yearMonth";
+import { cn } from "@/lib/utils";
+import { AlertTriangle } from "lucide-react";
+
+interface PlausibilityWarningsProps {
+  warnings: ValidationIssue[];
+  entries: TimelineEntry[];
+  className?: string;
+}
+
+const describeEntry = (entry?: TimelineEntry) =>
+  entry
+    ? `${entry.title || "Untitled entry"} (${formatDateForDisplay(entry.startDate)} - ${formatDateForDisplay(entry.endDate)})`
+    : "Entry";
+
+// Dates that look unlikely for the candidate's age. They do not stop the CV
+// being sent, but are worth checking first.
+const PlausibilityWarnings = ({ warnings, entries, className }: PlausibilityWarningsProps) => {
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className={cn("rounded-md border border-amber-200 bg-amber-50 p-4", className)}>
+      <h3 className="font-medium mb-1">Please check these dates</h3>
+      <p className="text-sm text-muted-foreground mb-3">
+        These entries look unusual for your age. You can still send your CV if they are correct.
+      </p>
+      <ul className="space-y-2">
+        {warnings.map((warning, index) => (
+          <li key={index} className="flex items-start gap-2 text-sm">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" />
+            <div>
+              <span className="font-medium">{describeEntry(entries.find(entry => entry.id === warning.entryId))}:</span>{" "}
+              {warning.message}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PlausibilityWarnings;
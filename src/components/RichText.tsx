@@ -0,0 +1,49 @@
+import { Fragment, ReactNode } from "react";
+import { RichTextMarkType, RichTextNode, parseRichText } from "@/utils/richText";
+
+interface RichTextProps {
+  html: string;
+  className?: string;
+}
+
+const MARK_ELEMENTS: Record<RichTextMarkType, "strong" | "em" | "s"> = {
+  bold: "strong",
+  italic: "em",
+  strike: "s"
+};
+
+const renderNodes = (nodes: RichTextNode[] = []): ReactNode[] => nodes.map(renderNode);
+
+const renderNode = (node: RichTextNode, key: number): ReactNode => {
+  switch (node.type) {
+    case "text":
+      return (
+        <Fragment key={key}>
+          {(node.marks || []).reduceRight<ReactNode>((children, mark) => {
+            const Mark = MARK_ELEMENTS[mark.type];
+            return <Mark>{children}</Mark>;
+          }, node.text)}
+        </Fragment>
+      );
+    case "hardBreak":
+      return <br key={key} />;
+    case "paragraph":
+      return <p key={key}>{renderNodes(node.content)}</p>;
+    case "bulletList":
+      return <ul key={key}>{renderNodes(node.content)}</ul>;
+    case "orderedList":
+      return <ol key={key} start={node.attrs?.start}>{renderNodes(node.content)}</ol>;
+    case "listItem":
+      return <li key={key}>{renderNodes(node.content)}</li>;
+    default:
+      return <Fragment key={key}>{renderNodes(node.content)}</Fragment>;
+  }
+};
+
+// A description from the rich text editor, rendered from its parsed tree like
+// the DOCX and PDF renderers do, so no HTML from the CV reaches the page as is
+const RichText = ({ html, className }: RichTextProps) => (
+  <div className={className}>{renderNodes(parseRichText(html).content)}</div>
+);
+
+export default RichText;
@@ -0,0 +1,20 @@
+import { SUBMISSION_STATUS_LABELS, SubmissionStatus } from "@/utils/adminApi";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+const STATUS_CLASSES: Record<SubmissionStatus, string> = {
+  received: "bg-amber-50 text-amber-700 border-amber-200",
+  email_retrying: "bg-orange-50 text-orange-700 border-orange-200",
+  emailed: "bg-green-50 text-green-700 border-green-200",
+  email_failed: "bg-red-50 text-red-700 border-red-200"
+};
+
+const SubmissionStatusBadge = ({ status }: { status: SubmissionStatus }) => {
+  return (
+    <Badge variant="outline" className={cn("whitespace-nowrap", STATUS_CLASSES[status])}>
+      {SUBMISSION_STATUS_LABELS[status] || status}
+    </Badge>
+  );
+};
+
+export default SubmissionStatusBadge;
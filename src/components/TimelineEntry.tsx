@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
-import { TimelineEntry as TimelineEntryType, formatDateForDisplay } from "@/utils/cvUtils";
+import { TimelineEntry as TimelineEntryType } from "@/utils/cvUtils";
+import { PartialDate, currentYearMonth, formatDateForDisplay } from "@/utils/yearMonth";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,11 +8,13 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Pencil, Trash2, Save, X } from "lucide-react";
+import { AlertTriangle, Pencil, Trash2, Save, X } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { DatePicker, MonthYearPicker } from "@/components/ui/month-year-picker";
-import { format, parseISO } from "date-fns";
+import { PartialDatePicker } from "@/components/PartialDatePicker";
 import { RichTextEditor } from "@/components/ui/rich-text-editor";
+import RichText from "@/components/RichText";
+import { ValidationIssue, hasErrors, validateEntry } from "@/utils/validation";
+import { toast } from "sonner";
 
 interface TimelineEntryProps {
   entry: TimelineEntryType;
@@ -20,6 +23,7 @@ interface TimelineEntryProps {
   onDelete: () => void;
   onEdit: () => void;
   onCancel: () => void;
+  warnings?: ValidationIssue[]; // plausibility warnings, shown until the dates are checked
 }
 
 const TimelineEntry = ({
@@ -28,26 +32,25 @@ const TimelineEntry = ({
   onSave,
   onDelete,
   onEdit,
-  onCancel
+  onCancel,
+  warnings = []
 }: TimelineEntryProps) => {
   const [editedEntry, setEditedEntry] = useState<TimelineEntryType>(entry);
+  const [validationErrors, setValidationErrors] = useState<Record<string, boolean>>({});
   const [isPresent, setIsPresent] = useState(entry.endDate === "present");
-  const [startDate, setStartDate] = useState<Date | undefined>(
-    entry.startDate ? parseISO(entry.startDate) : undefined
-  );
-  const [endDate, setEndDate] = useState<Date | undefined>(
-    entry.endDate && entry.endDate !== "present" ? parseISO(entry.endDate) : undefined
-  );
 
   useEffect(() => {
     setEditedEntry(entry);
     setIsPresent(entry.endDate === "present");
-    setStartDate(entry.startDate ? parseISO(entry.startDate) : undefined);
-    setEndDate(entry.endDate && entry.endDate !== "present" ? parseISO(entry.endDate) : undefined);
+    setValidationErrors({});
   }, [entry, isEditing]);
 
-  const handleChange = (field: keyof TimelineEntryType, value: string) => {
+  const handleChange = <K extends keyof TimelineEntryType>(field: K, value: TimelineEntryType[K]) => {
     setEditedEntry(prev => ({ ...prev, [field]: value }));
+    // Clear validation error when field is filled
+    if (validationErrors[field]) {
+      setValidationErrors(prev => ({ ...prev, [field]: false }));
+    }
   };
 
   const handleTypeChange = (value: string) => {
@@ -56,7 +59,8 @@ const TimelineEntry = ({
         ...prev,
         type: value as TimelineEntryType["type"],
         title: "Gap/Break",
-        organization: "Gap Period"
+        organization: "Gap Period",
+        concurrent: false
       }));
     } else {
       setEditedEntry(prev => ({
@@ -66,41 +70,50 @@ const TimelineEntry = ({
     }
   };
 
-  const handleStartDateChange = (date: Date | undefined) => {
-    setStartDate(date);
-    if (date) {
-      const formattedDate = format(date, "yyyy-MM");
-      handleChange("startDate", formattedDate);
-    }
+  const handleStartDateChange = (date: PartialDate) => {
+    handleChange("startDate", date);
   };
 
-  const handleEndDateChange = (date: Date | undefined) => {
-    setEndDate(date);
-    if (date) {
-      const formattedDate = format(date, "yyyy-MM");
-      handleChange("endDate", formattedDate);
-    }
+  const handleEndDateChange = (date: PartialDate) => {
+    handleChange("endDate", date);
   };
 
   const handlePresentToggle = (checked: boolean) => {
     setIsPresent(checked);
     if (checked) {
-      setEndDate(undefined);
       setEditedEntry(prev => ({ ...prev, endDate: "present" }));
     } else {
-      const today = new Date();
-      setEndDate(today);
-      const formattedDate = format(today, "yyyy-MM");
-      setEditedEntry(prev => ({ ...prev, endDate: formattedDate }));
+      setEditedEntry(prev => ({ ...prev, endDate: currentYearMonth() }));
     }
   };
 
+  const handleConcurrentToggle = (checked: boolean) => {
+    setEditedEntry(prev => ({ ...prev, concurrent: checked }));
+  };
+
   const handleSave = () => {
+    // Chronology depends on the other entries, so it is checked by onSave
+    const issues = validateEntry(editedEntry);
+    if (hasErrors(issues)) {
+      const errors: Record<string, boolean> = {};
+      issues.forEach(issue => {
+        errors[issue.path[issue.path.length - 1]] = true;
+      });
+      setValidationErrors(errors);
+      toast.error(
+        issues.some(issue => issue.code === "required") ? "Please fill all required fields" : issues[0].message,
+        {
+          style: { backgroundColor: '#fee2e2', color: '#dc2626' }
+        }
+      );
+      return;
+    }
+
     onSave(editedEntry);
   };
 
   return (
-    <Card className={cn(
+    <Card id={`entry-${entry.id}`} className={cn(
       "entry-card mb-4 overflow-hidden",
       isEditing ? "ring-2 ring-primary/20" : "",
       entry.type === "education" ? "border-l-4 border-l-blue-400" : "border-l-4 border-l-emerald-400"
@@ -128,12 +141,16 @@ const TimelineEntry = ({
               
               {editedEntry.type !== "gap" && (
                 <div className="space-y-2">
-                  <Label htmlFor="title">Position/Title</Label>
+                  <Label htmlFor="title" className="flex items-center">
+                    Position/Title
+                    {validationErrors.title && <span className="text-red-500 ml-1">*</span>}
+                  </Label>
                   <Input
                     id="title"
                     value={editedEntry.title}
                     onChange={(e) => handleChange("title", e.target.value)}
                     placeholder={editedEntry.type === "education" ? "Student/Degree" : "Job Title/Position"}
+                    className={cn(validationErrors.title && "border-red-500 focus:ring-red-500")}
                   />
                 </div>
               )}
@@ -141,25 +158,35 @@ const TimelineEntry = ({
             
             {editedEntry.type !== "gap" && (
               <div className="space-y-2 mt-4">
-                <Label htmlFor="organization">Organization</Label>
+                <Label htmlFor="organization" className="flex items-center">
+                  Organization
+                  {validationErrors.organization && <span className="text-red-500 ml-1">*</span>}
+                </Label>
                 <Input
                   id="organization"
                   value={editedEntry.organization}
                   onChange={(e) => handleChange("organization", e.target.value)}
                   placeholder={editedEntry.type === "education" ? "School/University" : "Company/Employer"}
+                  className={cn(validationErrors.organization && "border-red-500 focus:ring-red-500")}
                 />
               </div>
             )}
             
             {editedEntry.type !== "gap" && (
               <div className="space-y-2 mt-4">
-                <Label htmlFor="country">Country</Label>
+                <Label htmlFor="country" className="flex items-center">
+                  Country
+                  {validationErrors.country && <span className="text-red-500 ml-1">*</span>}
+                </Label>
                 <Input
                   id="country"
                   value={editedEntry.country || ""}
                   onChange={(e) => handleChange("country", e.target.value)}
                   placeholder="Enter country"
-                  className="transition-all focus:ring-2 focus:ring-primary/20"
+                  className={cn(
+                    "transition-all focus:ring-2 focus:ring-primary/20",
+                    validationErrors.country && "border-red-500 focus:ring-red-500"
+                  )}
                 />
               </div>
             )}
@@ -168,11 +195,15 @@ const TimelineEntry = ({
           <CardContent className="pb-2">
             <div className="grid grid-cols-2 gap-4 mb-4">
               <div className="space-y-2">
-                <Label htmlFor="startDate">Start Date</Label>
-                <MonthYearPicker
-                  date={startDate}
+                <Label htmlFor="startDate" className="flex items-center">
+                  Start Date
+                  {validationErrors.startDate && <span className="text-red-500 ml-1">*</span>}
+                </Label>
+                <PartialDatePicker
+                  date={editedEntry.startDate}
                   setDate={handleStartDateChange}
-                  placeholder="Select month/year"
+                  placeholder="Select date"
+                  className={cn(validationErrors.startDate && "border-red-500 focus:ring-red-500")}
                 />
               </div>
               
@@ -180,6 +211,7 @@ const TimelineEntry = ({
                 <div className="flex items-center justify-between">
                   <Label htmlFor="endDate" className={isPresent ? "text-muted-foreground" : ""}>
                     End Date
+                    {validationErrors.endDate && !isPresent && <span className="text-red-500 ml-1">*</span>}
                   </Label>
                   <div className="flex items-center space-x-2">
                     <Switch 
@@ -194,25 +226,56 @@ const TimelineEntry = ({
                 </div>
                 
                 <div className="relative">
-                  <MonthYearPicker
-                    date={endDate}
+                  <PartialDatePicker
+                    date={editedEntry.endDate === "present" ? null : editedEntry.endDate}
                     setDate={handleEndDateChange}
-                    placeholder="Select month/year"
+                    placeholder="Select date"
                     disabled={isPresent}
-                    className={cn(isPresent && "opacity-50")}
+                    className={cn(
+                      isPresent && "opacity-50",
+                      validationErrors.endDate && !isPresent && "border-red-500 focus:ring-red-500"
+                    )}
                   />
                 </div>
               </div>
             </div>
             
+            {editedEntry.type === "work" && !isPresent && (
+              <div className="space-y-2 mb-4">
+                <Label htmlFor={`reasonForLeaving-${entry.id}`}>Reason for Leaving</Label>
+                <Input
+                  id={`reasonForLeaving-${entry.id}`}
+                  value={editedEntry.reasonForLeaving || ""}
+                  onChange={(e) => handleChange("reasonForLeaving", e.target.value)}
+                  placeholder="e.g. End of contract, relocated, career change"
+                />
+              </div>
+            )}
+
+            {editedEntry.type !== "gap" && (
+              <div className="flex items-center space-x-2 mb-4">
+                <Switch
+                  id={`concurrent-${entry.id}`}
+                  checked={!!editedEntry.concurrent}
+                  onCheckedChange={handleConcurrentToggle}
+                />
+                <Label htmlFor={`concurrent-${entry.id}`} className="text-sm cursor-pointer">
+                  Held at the same time as another entry
+                </Label>
+              </div>
+            )}
+
             <div className="space-y-2">
-              <Label htmlFor="description">Description</Label>
+              <Label htmlFor="description" className="flex items-center">
+                Description
+                {validationErrors.description && <span className="text-red-500 ml-1">*</span>}
+              </Label>
               <RichTextEditor
                 value={editedEntry.description}
                 onChange={(value) => handleChange("description", value)}
                 placeholder=""
                 height="250px"
-                className="min-h-[200px]"
+                className={cn("min-h-[200px]", validationErrors.description && "border-red-500 focus:ring-red-500")}
               />
             </div>
           </CardContent>
@@ -233,6 +296,7 @@ const TimelineEntry = ({
               <div>
                 <div className="text-sm text-muted-foreground mb-1">
                   {entry.type === "education" ? "Education" : entry.type === "work" ? "Work Experience" : "Gap/Break"}
+                  {entry.concurrent && " · Concurrent"}
                 </div>
                 {entry.type !== "gap" ? (
                   <>
@@ -254,13 +318,25 @@ const TimelineEntry = ({
           </CardHeader>
           
           <CardContent className="pb-2">
-            <div 
-              className="text-sm prose prose-sm max-w-none overflow-hidden"
-              dangerouslySetInnerHTML={{ __html: entry.description }}
-              style={{
-                lineHeight: '1.5',
-              }}
+            <RichText
+              html={entry.description}
+              className="text-sm prose prose-sm max-w-none overflow-hidden leading-normal"
             />
+            {entry.type === "work" && entry.endDate !== "present" && entry.reasonForLeaving && (
+              <p className="text-sm mt-2">
+                <span className="font-medium">Reason for leaving:</span> {entry.reasonForLeaving}
+              </p>
+            )}
+            {warnings.length > 0 && (
+              <ul className="mt-3 space-y-1 rounded-md border border-amber-200 bg-amber-50 p-2 text-sm text-amber-800">
+                {warnings.map((warning, index) => (
+                  <li key={index} className="flex items-start gap-2">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" />
+                    {warning.message}
+                  </li>
+                ))}
+              </ul>
+            )}
           </CardContent>
           
           <CardFooter className="flex justify-end space-x-2 pt-0">
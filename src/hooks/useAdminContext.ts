@@ -0,0 +1,10 @@
+import { useOutletContext } from "react-router-dom";
+
+export interface AdminContext {
+  signOut: () => void;
+  // Sign out when a request failed because the token is no longer accepted
+  handleError: (error: unknown) => void;
+}
+
+// Shared by the pages nested under AdminLayout
+export const useAdminContext = () => useOutletContext<AdminContext>();
@@ -1,71 +1,205 @@
-import { useState, useCallback, useEffect } from "react";
-import { CVData, TimelineEntry, PersonalInfo, getStartYearFromDOB, isEntryInChronologicalOrder, isDateWithinElevenYearWindow, isFirstChronologicalEntry, parseDateString } from "../utils/cvUtils";
+import { useState, useCallback, useEffect, useReducer, useRef } from "react";
+import { CVData, TimelineEntry, TimelineEntryInput, TimelineGap, PersonalInfo, getAgeInYears } from "../utils/cvUtils";
+import {
+  DEFAULT_VALIDATION_POLICY,
+  ValidationIssue,
+  ValidationPolicy,
+  formatMinimumAgeRule,
+  hasErrors,
+  validateEntryChange
+} from "../utils/validation";
+import {
+  cvReducer,
+  initialCVState,
+  selectCVData,
+  selectCanRedo,
+  selectCanUndo,
+  selectIncompleteEntryIds,
+  selectUnexplainedGaps
+} from "../utils/cvStore";
+import { CVDraft, clearDraft, draftHasContent, loadDraft, saveDraft } from "../utils/draftStore";
 import { toast } from "sonner";
 
-const initialPersonalInfo: PersonalInfo = {
-  firstName: "",
-  lastName: "",
-  dateOfBirth: "",
-  address: "",
-  email: "",
-  phone: ""
+// Wait for a short pause in typing before writing the draft
+const AUTOSAVE_DELAY_MS = 500;
+
+const showFirstError = (issues: ValidationIssue[]) => {
+  const error = issues.find(issue => issue.severity === "error");
+  toast.error(error.message, {
+    style: { backgroundColor: '#fee2e2', color: '#dc2626' }
+  });
 };
 
-export const useCVData = () => {
-  const [personalInfo, setPersonalInfo] = useState<PersonalInfo>(initialPersonalInfo);
-  const [entries, setEntries] = useState<TimelineEntry[]>([]);
-  const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+// Ctrl+Z in a text field undoes typing in that field, not a change to the CV
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Entries are checked against policy, the active tenant's rules
+export const useCVData = (policy: ValidationPolicy = DEFAULT_VALIDATION_POLICY) => {
+  const [state, dispatch] = useReducer(cvReducer, initialCVState);
+  const { personalInfo, entries, acknowledgedGaps } = state.present;
+  const { editingEntryId } = state;
   const [isPreviewMode, setIsPreviewMode] = useState(false);
+  const [pendingDraft, setPendingDraft] = useState<CVDraft | null>(null);
+  const [isDraftResolved, setIsDraftResolved] = useState(false);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [isAutosaveFailing, setIsAutosaveFailing] = useState(false);
+  const saveGeneration = useRef(0);
+  const autosaveTimeout = useRef<number>();
+  // Sent with every submission of this draft so the server can drop repeats.
+  // Kept in a ref as changing it is not an edit to the CV.
+  const submissionKey = useRef<string>(crypto.randomUUID());
+  // The CV as last submitted. Submitting it again unchanged reuses the key,
+  // while the first change after it starts a new draft with a new key.
+  const submittedDocument = useRef<typeof state.present | null>(null);
+  // For callbacks that run later, e.g. a toast's Undo, and need the CV as it
+  // is by then
+  const latestDocument = useRef(state.present);
+  latestDocument.current = state.present;
+
+  // Look for a draft from a previous visit before autosave is allowed to overwrite it
+  useEffect(() => {
+    let cancelled = false;
+    loadDraft().then(draft => {
+      if (cancelled) return;
+      if (draft && draftHasContent(draft)) {
+        setPendingDraft(draft);
+      } else {
+        setIsDraftResolved(true);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Runs before the autosave below, so the new draft is saved with its new key
+  useEffect(() => {
+    if (submittedDocument.current && submittedDocument.current !== state.present) {
+      submittedDocument.current = null;
+      submissionKey.current = crypto.randomUUID();
+    }
+  }, [state.present]);
+
+  // Persist every change to the draft store
+  useEffect(() => {
+    if (!isDraftResolved) return;
+
+    const generation = ++saveGeneration.current;
+    const content = { personalInfo, entries, acknowledgedGaps, editingEntryId, submissionKey: submissionKey.current };
+    setHasUnsavedChanges(true);
+
+    autosaveTimeout.current = window.setTimeout(() => {
+      const persist = draftHasContent(content)
+        ? saveDraft(content).then(result => result.success)
+        : clearDraft().then(() => true);
+      persist
+        .catch(error => {
+          console.error("Error autosaving draft:", error);
+          return false;
+        })
+        .then(saved => {
+          if (generation !== saveGeneration.current) return;
+          setIsAutosaveFailing(!saved);
+          // Unsaved changes keep the warning before leaving the page
+          if (saved) setHasUnsavedChanges(false);
+        });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => window.clearTimeout(autosaveTimeout.current);
+  }, [isDraftResolved, personalInfo, entries, acknowledgedGaps, editingEntryId]);
+
+  // Tell the candidate once when autosave stops working, e.g. with storage full
+  useEffect(() => {
+    if (!isAutosaveFailing) return;
+    toast("Your changes can't be saved in this browser", {
+      description: "Use \"Save to file\" to keep a copy of your CV before leaving this page.",
+      style: { backgroundColor: '#fef3c7', color: '#ca8a04' }
+    });
+  }, [isAutosaveFailing]);
+
+  // Warn before leaving while edits have not reached the draft store yet
+  useEffect(() => {
+    if (!hasUnsavedChanges && !editingEntryId) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [hasUnsavedChanges, editingEntryId]);
+
+  const undo = useCallback(() => {
+    dispatch({ type: "history/undo" });
+  }, []);
+
+  const redo = useCallback(() => {
+    dispatch({ type: "history/redo" });
+  }, []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) while editing the CV
+  useEffect(() => {
+    if (isPreviewMode) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== "z") return;
+      if (isEditableTarget(event.target)) return;
+
+      event.preventDefault();
+      dispatch({ type: event.shiftKey ? "history/redo" : "history/undo" });
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isPreviewMode]);
+
+  const restoreDraft = useCallback(() => {
+    if (!pendingDraft) return;
+    dispatch({ type: "draft/restore", data: pendingDraft, editingEntryId: pendingDraft.editingEntryId });
+    if (pendingDraft.submissionKey) {
+      submissionKey.current = pendingDraft.submissionKey;
+    }
+    setPendingDraft(null);
+    setIsDraftResolved(true);
+  }, [pendingDraft]);
+
+  const discardDraft = useCallback(() => {
+    setPendingDraft(null);
+    setIsDraftResolved(true);
+    clearDraft();
+  }, []);
+
+  // Called once the CV has been submitted so the next visit starts fresh. Any
+  // later change is a new draft, submitted under a new key.
+  const clearSavedDraft = useCallback(async () => {
+    window.clearTimeout(autosaveTimeout.current);
+    saveGeneration.current++;
+    submittedDocument.current = state.present;
+    await clearDraft();
+    setHasUnsavedChanges(false);
+  }, [state.present]);
 
   const updatePersonalInfo = useCallback((info: Partial<PersonalInfo>) => {
-    setPersonalInfo(prev => ({ ...prev, ...info }));
+    dispatch({ type: "personalInfo/update", info });
   }, []);
 
-  const addEntry = useCallback((entry: Omit<TimelineEntry, "id">) => {
+  // Changes that break a validation rule are rejected with a toast
+  const addEntry = useCallback((entry: TimelineEntryInput) => {
     const newEntry = { ...entry, id: crypto.randomUUID() };
     
-    // If this is the first entry, validate that it starts within 1-11 years from DOB
-    if (entries.length === 0) {
-      const isoDob = parseDateString(personalInfo.dateOfBirth);
-      if (!isoDob) {
-        toast.error("Please add your date of birth in Personal Details", {
-          style: { backgroundColor: '#fee2e2', color: '#dc2626' }
-        });
-        return false;
-      }
-      
-      if (!isDateWithinElevenYearWindow(isoDob, newEntry.startDate)) {
-        toast.error("First entry must start when you are between 1 and 11 years old", {
-          style: { backgroundColor: '#fee2e2', color: '#dc2626' }
-        });
-        return false;
-      }
-    } else {
-      // Check chronological order using the same function used for editing entries
-      if (!isEntryInChronologicalOrder(entries, newEntry as TimelineEntry)) {
-        toast.error("Entry dates must follow chronological order", {
-            style: { backgroundColor: '#fee2e2', color: '#dc2626' }
-          });
-          return false;
-        }
-        
-      // Ensure end date is after start date
-      const newEntryStartDate = new Date(newEntry.startDate);
-        const newEntryEndDate = newEntry.endDate === "present" 
-          ? new Date() 
-          : new Date(newEntry.endDate);
-        
-        if (newEntryEndDate <= newEntryStartDate) {
-          toast.error("End date must be after the start date", {
-            style: { backgroundColor: '#fee2e2', color: '#dc2626' }
-          });
-          return false;
-      }
+    const issues = validateEntryChange(entries, newEntry, personalInfo.dateOfBirth, policy);
+    if (hasErrors(issues)) {
+      showFirstError(issues);
+      return false;
     }
     
-    setEntries(prev => [...prev, newEntry as TimelineEntry]);
+    // Validation guarantees both dates are set
+    dispatch({ type: "entry/add", entry: newEntry as TimelineEntry });
     return true;
-  }, [entries, personalInfo.dateOfBirth]);
+  }, [entries, personalInfo.dateOfBirth, policy]);
 
   const updateEntry = useCallback((id: string, updates: Partial<TimelineEntry>) => {
     const entryToUpdate = entries.find(e => e.id === id);
@@ -73,65 +207,65 @@ export const useCVData = () => {
     
     const updatedEntry = { ...entryToUpdate, ...updates };
     
-    // If this is the first entry, validate that it starts within 1-11 years from DOB
-    const isFirstEntry = entries.length === 1 || 
-      (entries.length > 1 && isFirstChronologicalEntry(entries, id));
-      
-    if (isFirstEntry) {
-      const isoDob = parseDateString(personalInfo.dateOfBirth);
-      if (!isoDob) {
-        toast.error("Please add your date of birth in Personal Details", {
-          style: { backgroundColor: '#fee2e2', color: '#dc2626' }
-        });
-        return false;
-      }
-      
-      if (!isDateWithinElevenYearWindow(isoDob, updatedEntry.startDate)) {
-        toast.error("First entry must start when you are between 1 and 11 years old", {
-          style: { backgroundColor: '#fee2e2', color: '#dc2626' }
-        });
-        return false;
-      }
-    } else {
-      // Check chronological order using the same function used for new entries
-      if (!isEntryInChronologicalOrder(entries, updatedEntry, id)) {
-        toast.error("Entry dates must follow chronological order", {
-            style: { backgroundColor: '#fee2e2', color: '#dc2626' }
-          });
-          return false;
-        }
-        
-      // Ensure end date is after start date
-      const updatedStartDate = new Date(updatedEntry.startDate);
-        const updatedEndDate = updatedEntry.endDate === "present" 
-          ? new Date() 
-          : new Date(updatedEntry.endDate);
-        
-        if (updatedEndDate <= updatedStartDate) {
-          toast.error("End date must be after the start date", {
-            style: { backgroundColor: '#fee2e2', color: '#dc2626' }
-          });
-          return false;
-      }
+    const issues = validateEntryChange(entries, updatedEntry, personalInfo.dateOfBirth, policy);
+    if (hasErrors(issues)) {
+      showFirstError(issues);
+      return false;
     }
     
-    setEntries(prev => prev.map(e => e.id === id ? updatedEntry : e));
+    dispatch({ type: "entry/update", entry: updatedEntry });
     return true;
-  }, [entries, personalInfo.dateOfBirth]);
+  }, [entries, personalInfo.dateOfBirth, policy]);
+
+  // Skeleton entries such as generated school stages are added without
+  // checking: they are incomplete until the candidate fills them in, and
+  // Finish & Preview opens the first one still missing anything
+  const addEntries = useCallback((newEntries: TimelineEntry[]) => {
+    dispatch({ type: "entries/add", entries: newEntries });
+  }, []);
 
+  // The toast puts the entry back even if other changes were made since
   const removeEntry = useCallback((id: string) => {
-    setEntries(prev => prev.filter(e => e.id !== id));
-    if (editingEntryId === id) {
-      setEditingEntryId(null);
-    }
-  }, [editingEntryId]);
+    const index = entries.findIndex(e => e.id === id);
+    if (index === -1) return;
+
+    const entry = entries[index];
+    dispatch({ type: "entry/remove", id });
+
+    // Other changes may have been made since, so the entry is checked like a
+    // new one before it goes back
+    const restore = () => {
+      const { entries: currentEntries, personalInfo: currentInfo } = latestDocument.current;
+      const issues = validateEntryChange(currentEntries, entry, currentInfo.dateOfBirth, policy);
+      if (hasErrors(issues)) {
+        showFirstError(issues);
+        return;
+      }
+      dispatch({ type: "entry/restore", entry, index });
+    };
+
+    toast("Entry deleted", {
+      action: { label: "Undo", onClick: restore }
+    });
+  }, [entries, policy]);
+
+  // Replace the whole CV, e.g. with data loaded from a saved file
+  const loadCVData = useCallback((data: CVData) => {
+    dispatch({ type: "cv/load", data });
+  }, []);
+
+  // Accept a gap without explaining it with an entry. It stays acknowledged
+  // only as long as the surrounding entries leave exactly the same gap.
+  const acknowledgeGap = useCallback((gap: TimelineGap) => {
+    dispatch({ type: "gap/acknowledge", gap });
+  }, []);
 
   const startEditingEntry = useCallback((id: string) => {
-    setEditingEntryId(id);
+    dispatch({ type: "editing/start", id });
   }, []);
 
   const cancelEditingEntry = useCallback(() => {
-    setEditingEntryId(null);
+    dispatch({ type: "editing/cancel" });
   }, []);
 
   const togglePreviewMode = useCallback(() => {
@@ -139,33 +273,56 @@ export const useCVData = () => {
       toast.error("Please fill in at least your name and date of birth before previewing");
       return;
     }
+    const age = getAgeInYears(personalInfo.dateOfBirth);
+    if (!isPreviewMode && age !== null && age < policy.minimumCandidateAge) {
+      toast.error(formatMinimumAgeRule(policy), {
+        style: { backgroundColor: '#fee2e2', color: '#dc2626' }
+      });
+      return;
+    }
     setIsPreviewMode(prev => !prev);
-  }, [isPreviewMode, personalInfo]);
-
-  const getCVData = useCallback((): CVData => {
-    return {
-      personalInfo: {
-        ...personalInfo,
-        dateOfBirth: parseDateString(personalInfo.dateOfBirth)
-      },
-      entries: entries.sort((a, b) => 
-        new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
-      )
-    };
-  }, [personalInfo, entries]);
+  }, [isPreviewMode, personalInfo, policy]);
+
+  const getCVData = useCallback((): CVData => selectCVData(state), [state]);
+
+  const getSubmissionKey = useCallback(() => submissionKey.current, []);
+
+  // For a key the server has already seen with a different CV
+  const renewSubmissionKey = useCallback(() => {
+    submissionKey.current = crypto.randomUUID();
+    return submissionKey.current;
+  }, []);
 
   return {
     personalInfo,
     entries,
+    acknowledgedGaps,
+    unexplainedGaps: selectUnexplainedGaps(state, policy),
+    incompleteEntryIds: selectIncompleteEntryIds(state),
     editingEntryId,
     isPreviewMode,
+    pendingDraft,
+    hasUnsavedChanges,
+    isAutosaveFailing,
+    canUndo: selectCanUndo(state),
+    canRedo: selectCanRedo(state),
     updatePersonalInfo,
     addEntry,
+    addEntries,
     updateEntry,
     removeEntry,
+    loadCVData,
+    acknowledgeGap,
     startEditingEntry,
     cancelEditingEntry,
     togglePreviewMode,
-    getCVData
+    getCVData,
+    getSubmissionKey,
+    renewSubmissionKey,
+    undo,
+    redo,
+    restoreDraft,
+    discardDraft,
+    clearSavedDraft
   };
 };
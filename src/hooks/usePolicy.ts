@@ -0,0 +1,21 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchPolicy } from "@/utils/api";
+import { TenantConfig, getTenantPolicy } from "@/utils/tenants";
+import { ValidationPolicy } from "@/utils/validation";
+
+// The tenant's validation policy, loaded from the server so the editor checks
+// the rules submissions are checked against. The built-in tenant config is
+// used until it arrives, or if the server cannot be reached.
+export const usePolicy = (tenant: TenantConfig): ValidationPolicy => {
+  const fallback = useMemo(() => getTenantPolicy(tenant), [tenant]);
+
+  const { data } = useQuery({
+    queryKey: ["policy", tenant.id],
+    queryFn: () => fetchPolicy(tenant.id),
+    staleTime: Infinity,
+    retry: 1
+  });
+
+  return data || fallback;
+};
@@ -0,0 +1,17 @@
+import { useEffect, useMemo } from "react";
+import { TenantConfig, getTenant, resolveTenant } from "@/utils/tenants";
+
+// Tenant for the hostname the app is served from. Set VITE_TENANT to a tenant
+// id to preview another agency's branding locally.
+export const useTenant = (): TenantConfig => {
+  const tenant = useMemo(() => {
+    const forcedTenantId = import.meta.env.VITE_TENANT;
+    return forcedTenantId ? getTenant(forcedTenantId) : resolveTenant(window.location.hostname);
+  }, []);
+
+  useEffect(() => {
+    document.title = tenant.appTitle;
+  }, [tenant]);
+
+  return tenant;
+};
@@ -0,0 +1,189 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { downloadSubmissionDocument, fetchSubmission, resendSubmissionEmail } from "@/utils/adminApi";
+import { buildCVDocumentModel } from "@/utils/cvDocumentModel";
+import { buildComplianceReport } from "@/utils/compliance";
+import { getTenant } from "@/utils/tenants";
+import { useAdminContext } from "@/hooks/useAdminContext";
+import { usePolicy } from "@/hooks/usePolicy";
+import CVDocumentView from "@/components/CVDocumentView";
+import ComplianceChecklist from "@/components/ComplianceChecklist";
+import SubmissionStatusBadge from "@/components/SubmissionStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, FileText, Loader2, Mail } from "lucide-react";
+import { toast } from "sonner";
+
+const formatTimestamp = (timestamp?: string) =>
+  timestamp ? format(parseISO(timestamp), "d MMM yyyy 'at' HH:mm") : "";
+
+const AdminSubmissionDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { handleError } = useAdminContext();
+  const queryClient = useQueryClient();
+  const [isResending, setIsResending] = useState(false);
+
+  const { data: submission, isLoading, error } = useQuery({
+    queryKey: ["admin", "submission", id],
+    queryFn: () => fetchSubmission(id)
+  });
+
+  // The report is checked against the policy of the agency the CV was sent to
+  const policy = usePolicy(getTenant(submission?.tenantId));
+
+  useEffect(() => {
+    if (error) handleError(error);
+  }, [error, handleError]);
+
+  const documentModel = useMemo(
+    () => submission?.data
+      ? buildCVDocumentModel(submission.data, submission.templateId, submission.tenantId)
+      : null,
+    [submission]
+  );
+
+  const complianceReport = useMemo(
+    () => submission?.data
+      ? buildComplianceReport(submission.data, policy)
+      : null,
+    [submission, policy]
+  );
+
+  const handleDownload = async (documentFormat: "docx" | "pdf") => {
+    try {
+      await downloadSubmissionDocument(submission, documentFormat);
+    } catch (downloadError) {
+      console.error("Error downloading submission:", downloadError);
+      handleError(downloadError);
+      toast.error(`Could not download the ${documentFormat.toUpperCase()}`);
+    }
+  };
+
+  const handleResend = async () => {
+    setIsResending(true);
+    try {
+      const updated = await resendSubmissionEmail(submission.id);
+      queryClient.setQueryData(["admin", "submission", id], updated);
+      queryClient.invalidateQueries({ queryKey: ["admin", "submissions"] });
+      if (updated.status === "emailed") {
+        toast.success("Email sent");
+      } else if (updated.status === "email_retrying") {
+        toast.error("The email could not be sent. It will be retried automatically.");
+      } else {
+        toast.error("The email could not be sent");
+      }
+    } catch (resendError) {
+      console.error("Error resending submission email:", resendError);
+      handleError(resendError);
+      toast.error("Could not resend the email");
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!submission) {
+    return (
+      <div className="text-center py-16 space-y-4">
+        <p className="text-muted-foreground">
+          {error instanceof Error ? error.message : "Submission not found"}
+        </p>
+        <Button variant="outline" asChild>
+          <Link to="/admin"><ArrowLeft className="mr-2 h-4 w-4" /> Back to submissions</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const { candidate } = submission;
+  const documentFormats = (["docx", "pdf"] as const).filter(
+    (documentFormat) => submission.data || submission.files[documentFormat]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Button variant="outline" asChild>
+          <Link to="/admin"><ArrowLeft className="mr-2 h-4 w-4" /> Back to submissions</Link>
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleResend} disabled={isResending}>
+            {isResending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+            Resend email
+          </Button>
+          {documentFormats.map((documentFormat) => (
+            <Button key={documentFormat} onClick={() => handleDownload(documentFormat)}>
+              <FileText className="mr-2 h-4 w-4" /> Download {documentFormat.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-3">
+            {candidate.firstName} {candidate.lastName}
+            <SubmissionStatusBadge status={submission.status} />
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid gap-x-6 gap-y-2 text-sm sm:grid-cols-2">
+            <div><dt className="text-muted-foreground">Reference</dt><dd className="font-mono">{submission.id}</dd></div>
+            <div><dt className="text-muted-foreground">Submitted</dt><dd>{formatTimestamp(submission.createdAt)}</dd></div>
+            <div><dt className="text-muted-foreground">Agency</dt><dd>{getTenant(submission.tenantId).name}</dd></div>
+            <div><dt className="text-muted-foreground">Origin</dt><dd>{submission.origin || "Unknown"}</dd></div>
+            {candidate.email && (
+              <div>
+                <dt className="text-muted-foreground">Email</dt>
+                <dd>
+                  {candidate.email}{" "}
+                  {candidate.emailVerified
+                    ? <span className="text-green-700">(verified)</span>
+                    : <span className="text-amber-700">(not verified)</span>}
+                </dd>
+              </div>
+            )}
+            {candidate.postcode && (
+              <div><dt className="text-muted-foreground">Postcode</dt><dd>{candidate.postcode}</dd></div>
+            )}
+            {submission.email?.sentAt && (
+              <div><dt className="text-muted-foreground">Emailed</dt><dd>{formatTimestamp(submission.email.sentAt)}</dd></div>
+            )}
+            {submission.email?.error && (
+              <div><dt className="text-muted-foreground">Email error</dt><dd className="text-red-600">{submission.email.error}</dd></div>
+            )}
+            {submission.email?.attempts > 0 && (
+              <div><dt className="text-muted-foreground">Email attempts</dt><dd>{submission.email.attempts}</dd></div>
+            )}
+            {submission.status === "email_retrying" && submission.email?.nextAttemptAt && (
+              <div><dt className="text-muted-foreground">Next attempt</dt><dd>{formatTimestamp(submission.email.nextAttemptAt)}</dd></div>
+            )}
+          </dl>
+        </CardContent>
+      </Card>
+
+      {complianceReport && <ComplianceChecklist report={complianceReport} />}
+
+      {documentModel ? (
+        <Card>
+          <CVDocumentView model={documentModel} />
+        </Card>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          This CV was uploaded as a finished document, so there is no structured timeline to show.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AdminSubmissionDetail;
@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import {
+  SUBMISSION_STATUS_LABELS,
+  SubmissionFilters,
+  SubmissionStatus,
+  SubmissionSummary,
+  downloadSubmissionDocument,
+  fetchSubmissions
+} from "@/utils/adminApi";
+import { useAdminContext } from "@/hooks/useAdminContext";
+import SubmissionStatusBadge from "@/components/SubmissionStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileText, Loader2, Search } from "lucide-react";
+import { toast } from "sonner";
+
+const ALL_STATUSES = "all";
+const SEARCH_DELAY_MS = 300;
+
+const AdminSubmissions = () => {
+  const { handleError } = useAdminContext();
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [status, setStatus] = useState<SubmissionStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const filters: SubmissionFilters = {
+    q: debouncedSearch,
+    status: status === ALL_STATUSES ? undefined : status,
+    from,
+    to
+  };
+
+  const { data: submissions = [], isLoading, error } = useQuery({
+    queryKey: ["admin", "submissions", filters],
+    queryFn: () => fetchSubmissions(filters)
+  });
+
+  useEffect(() => {
+    if (error) handleError(error);
+  }, [error, handleError]);
+
+  const handleDownload = async (submission: SubmissionSummary, documentFormat: "docx" | "pdf") => {
+    try {
+      await downloadSubmissionDocument(submission, documentFormat);
+    } catch (downloadError) {
+      console.error("Error downloading submission:", downloadError);
+      handleError(downloadError);
+      toast.error(`Could not download the ${documentFormat.toUpperCase()}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="grid gap-4 pt-6 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-1 sm:col-span-2 lg:col-span-1">
+            <Label htmlFor="submission-search">Search</Label>
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="submission-search"
+                className="pl-8"
+                placeholder="Name, email or postcode"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="submission-status">Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as SubmissionStatus | typeof ALL_STATUSES)}>
+              <SelectTrigger id="submission-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+                {Object.entries(SUBMISSION_STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="submission-from">From</Label>
+            <Input id="submission-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="submission-to">To</Label>
+            <Input id="submission-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Submitted</TableHead>
+              <TableHead>Candidate</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Postcode</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Documents</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  <Loader2 className="h-5 w-5 animate-spin inline-block" />
+                </TableCell>
+              </TableRow>
+            ) : submissions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                  No submissions match these filters
+                </TableCell>
+              </TableRow>
+            ) : (
+              submissions.map((submission) => (
+                <TableRow key={submission.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {format(parseISO(submission.createdAt), "d MMM yyyy HH:mm")}
+                  </TableCell>
+                  <TableCell>
+                    <Link to={`/admin/submissions/${submission.id}`} className="font-medium text-blue-600 hover:underline">
+                      {submission.candidate.firstName} {submission.candidate.lastName}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{submission.candidate.email}</TableCell>
+                  <TableCell>{submission.candidate.postcode}</TableCell>
+                  <TableCell>
+                    <SubmissionStatusBadge status={submission.status} />
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {(["docx", "pdf"] as const)
+                      .filter((documentFormat) => submission.hasData || submission.files[documentFormat])
+                      .map((documentFormat) => (
+                        <Button
+                          key={documentFormat}
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDownload(submission, documentFormat)}
+                        >
+                          <FileText className="h-4 w-4 mr-1" /> {documentFormat.toUpperCase()}
+                        </Button>
+                      ))}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminSubmissions;
@@ -1,13 +1,22 @@
 import { useState, useEffect, useRef } from "react";
 import { useCVData } from "@/hooks/useCVData";
+import { useTenant } from "@/hooks/useTenant";
+import { usePolicy } from "@/hooks/usePolicy";
 import { 
   getDefaultStartMonth, 
-  sendCVDocument,
   TimelineEntry as TimelineEntryType, 
-  identifyGaps,
-  isEntryInChronologicalOrder 
+  TimelineEntryInput,
+  TimelineGap,
+  groupConcurrentEntries
 } from "@/utils/cvUtils";
+import { parseCVDataFile } from "@/utils/cvSchema";
+import { hasErrors, isEmptyRichText, validateEntry, validateEntryChange } from "@/utils/validation";
+import { downloadCVDataFile, sendCVDocument } from "@/utils/cvDocuments";
+import { buildEducationSkeleton } from "@/utils/schoolSystems";
+import { findPlausibilityWarnings } from "@/utils/plausibility";
 import PersonalDetails from "@/components/PersonalDetails";
+import GapResolutionList from "@/components/GapResolutionList";
+import EducationSkeletonPrompt from "@/components/EducationSkeletonPrompt";
 import TimelineEntry from "@/components/TimelineEntry";
 import CVPreview from "@/components/CVPreview";
 import { Button } from "@/components/ui/button";
@@ -17,11 +26,12 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Plus, Eye, ArrowRight, Download, Send, AlertCircle, XCircle } from "lucide-react";
+import { Plus, Eye, ArrowRight, Download, Upload, Send, AlertCircle, XCircle, Undo2, Redo2 } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
-import { DatePicker, MonthYearPicker } from "@/components/ui/month-year-picker";
+import { PartialDatePicker } from "@/components/PartialDatePicker";
 import { format, parseISO } from "date-fns";
+import { PartialDate, currentYearMonth } from "@/utils/yearMonth";
 import { RichTextEditor } from "@/components/ui/rich-text-editor";
 import { 
   AlertDialog,
@@ -35,69 +45,73 @@ import {
 } from "@/components/ui/alert-dialog";
 
 
-// Helper function to check for effectively empty rich text content
-const isEmptyRichText = (value: string): boolean => {
-  if (!value) return true;
-  const trimmed = value.trim();
-  // Consider variations of empty paragraph tags or just breaks
-  return trimmed === '' || trimmed === '<p></p>' || trimmed === '<p><br></p>' || trimmed === '<p><br/></p>';
-};
-
-const emptyEntry: Omit<TimelineEntryType, "id"> = {
+const emptyEntry: TimelineEntryInput = {
   type: "education",
   title: "",
   organization: "",
   country: "",
-  startDate: "",
-  endDate: "",
+  startDate: null,
+  endDate: null,
   description: ""
 };
 
 const Index = () => {
+  const tenant = useTenant();
+  const policy = usePolicy(tenant);
   const {
     personalInfo,
     entries,
+    unexplainedGaps,
     editingEntryId,
     isPreviewMode,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
     updatePersonalInfo,
     addEntry,
+    addEntries,
     updateEntry,
     removeEntry,
+    loadCVData,
+    acknowledgeGap,
     startEditingEntry,
     cancelEditingEntry,
     togglePreviewMode,
-    getCVData
-  } = useCVData();
-
-  const [newEntry, setNewEntry] = useState<Omit<TimelineEntryType, "id">>({
+    getCVData,
+    getSubmissionKey,
+    renewSubmissionKey,
+    isAutosaveFailing,
+    incompleteEntryIds,
+    pendingDraft,
+    restoreDraft,
+    discardDraft,
+    clearSavedDraft
+  } = useCVData(policy);
+
+  const [newEntry, setNewEntry] = useState<TimelineEntryInput>({
     type: "education",
     title: "",
     organization: "",
     country: "",
-    startDate: "",
-    endDate: "",
+    startDate: null,
+    endDate: null,
     description: ""
   });
   const [isPresent, setIsPresent] = useState(false);
-  const [showGaps, setShowGaps] = useState(false);
-  const [startDate, setStartDate] = useState<Date | undefined>(
-    newEntry.startDate ? parseISO(newEntry.startDate) : undefined
-  );
-  const [endDate, setEndDate] = useState<Date | undefined>(
-    newEntry.endDate && newEntry.endDate !== "present" ? parseISO(newEntry.endDate) : undefined
-  );
   const [validationErrors, setValidationErrors] = useState<Record<string, boolean>>({});
   const formRefs = useRef<Record<string, HTMLElement | null>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [isFormModified, setIsFormModified] = useState(false);
   const [showPreviewWarning, setShowPreviewWarning] = useState(false);
   const [hasIncompleteEntries, setHasIncompleteEntries] = useState(false);
 
   // Refactored function to check if the form has actual user input
-  const checkFormHasValues = (entry: Omit<TimelineEntryType, "id">, isPresentChecked: boolean) => {
+  const checkFormHasValues = (entry: TimelineEntryInput, isPresentChecked: boolean) => {
     const descriptionHasValue = entry.description && !isEmptyRichText(entry.description);
-    const startDateHasValue = entry.startDate && entry.startDate.trim() !== '';
+    const startDateHasValue = !!entry.startDate;
     // End date has value if it's not empty, not 'present', and the 'present' switch isn't checked
-    const endDateHasValue = entry.endDate && entry.endDate.trim() !== '' && entry.endDate !== 'present' && !isPresentChecked;
+    const endDateHasValue = !!entry.endDate && entry.endDate !== 'present' && !isPresentChecked;
 
     if (entry.type === 'gap') {
       // For gap, only check dates and description
@@ -129,7 +143,7 @@ const Index = () => {
     }
   };
 
-  const handleNewEntryChange = (field: keyof TimelineEntryType, value: string) => {
+  const handleNewEntryChange = (field: keyof TimelineEntryInput, value: string) => {
     setNewEntry(prev => ({ ...prev, [field]: value }));
     // Clear validation error when field is filled
     if (validationErrors[field]) {
@@ -151,7 +165,7 @@ const Index = () => {
   };
 
   const handleNewEntryTypeChange = (value: string) => {
-    const type = value as TimelineEntryType["type"];
+    const type = value as TimelineEntryInput["type"];
     let updatedEntry;
     
     if (type === "gap") {
@@ -161,7 +175,9 @@ const Index = () => {
         title: "Gap/Break",
         organization: "Gap Period",
         country: "",
-        description: ""
+        description: "",
+        reasonForLeaving: "",
+        concurrent: false
       };
     } else {
       updatedEntry = { 
@@ -170,7 +186,8 @@ const Index = () => {
         title: "",
         organization: "",
         country: "",
-        description: ""
+        description: "",
+        reasonForLeaving: ""
       };
     }
     
@@ -184,17 +201,17 @@ const Index = () => {
     }
   };
 
-  const handleStartDateChange = (date: Date | undefined) => {
-    setStartDate(date);
-    let formattedDate = "";
-    
-    if (date) {
-      formattedDate = format(date, "yyyy-MM");
+  const handleConcurrentToggle = (checked: boolean) => {
+    setNewEntry(prev => ({ ...prev, concurrent: checked }));
+    if (validationErrors.concurrent) {
+      setValidationErrors(prev => ({ ...prev, concurrent: false }));
     }
-    
+  };
+
+  const handleStartDateChange = (date: PartialDate) => {
     const updatedEntry = {
       ...newEntry,
-      startDate: formattedDate
+      startDate: date
     };
     
     setNewEntry(updatedEntry);
@@ -207,17 +224,10 @@ const Index = () => {
     }
   };
 
-  const handleEndDateChange = (date: Date | undefined) => {
-    setEndDate(date);
-    let formattedDate = "";
-    
-    if (date) {
-      formattedDate = format(date, "yyyy-MM");
-    }
-    
+  const handleEndDateChange = (date: PartialDate) => {
     const updatedEntry = {
       ...newEntry,
-      endDate: formattedDate
+      endDate: date
     };
     
     setNewEntry(updatedEntry);
@@ -236,13 +246,9 @@ const Index = () => {
     let updatedEntry = { ...newEntry };
     
     if (checked) {
-      setEndDate(undefined);
       updatedEntry = { ...updatedEntry, endDate: "present" };
     } else {
-      const today = new Date();
-      setEndDate(today);
-      const formattedDate = format(today, "yyyy-MM");
-      updatedEntry = { ...updatedEntry, endDate: formattedDate };
+      updatedEntry = { ...updatedEntry, endDate: currentYearMonth() };
     }
     
     setNewEntry(updatedEntry);
@@ -256,49 +262,28 @@ const Index = () => {
   };
 
   const handleAddEntry = () => {
-    // Validate required fields
-    const errors: Record<string, boolean> = {};
-    let requiredFields: (keyof TimelineEntryType)[] = ['description', 'startDate'];
-
-    if (newEntry.type === 'gap') {
-      // For gap entries, only description and dates are required
-      if (!isPresent) requiredFields.push('endDate');
-    } else if (newEntry.type === 'education') {
-      // For education, title, country, description, and dates are required (organization is optional)
-      requiredFields = [
-        'title',
-        'country',
-        'description',
-        'startDate'
-      ];
-      if (!isPresent) requiredFields.push('endDate');
-    } else { // Assumes 'work' type if not 'gap' or 'education'
-      // For work entries, all fields except potentially endDate are required
-      requiredFields = [
-        'title',
-        'country',
-        'description',
-        'startDate'
-      ];
-      if (!isPresent) requiredFields.push('endDate');
-    }
-
-    requiredFields.forEach(field => {
-      if (!newEntry[field]) {
-        errors[field] = true;
-        // Scroll to first error field
-        if (formRefs.current[field]) {
-          formRefs.current[field]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
-        }
-      }
-    });
+    // Field, date and chronology rules; addEntry checks them again before saving
+    const issues = validateEntryChange(entries, { ...newEntry, id: 'new' }, personalInfo.dateOfBirth, policy);
 
-    if (Object.keys(errors).length > 0) {
+    if (hasErrors(issues)) {
+      const errorIssues = issues.filter(issue => issue.severity === 'error');
+      const errors: Record<string, boolean> = {};
+      errorIssues.forEach(issue => {
+        errors[issue.path[issue.path.length - 1]] = true;
+      });
       setValidationErrors(errors);
+
+      // Scroll to first error field
+      const firstField = Object.keys(errors).find(field => formRefs.current[field]);
+      formRefs.current[firstField]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+      const hasMissingFields = errorIssues.some(issue => issue.code === 'required');
       toast.error(
-        newEntry.type === 'gap' 
-          ? "Please provide a description and dates for the gap period"
-          : "Please fill all required fields",
+        !hasMissingFields
+          ? errorIssues[0].message
+          : newEntry.type === 'gap' 
+            ? "Please provide a description and dates for the gap period"
+            : "Please fill all required fields",
         {
           style: { backgroundColor: '#fee2e2', color: '#dc2626' }
         }
@@ -306,31 +291,11 @@ const Index = () => {
       return;
     }
 
-    // Check chronological order
-    const entryToCheck = {
-      ...newEntry,
-      id: 'temp'
-    };
-
-    if (!isEntryInChronologicalOrder(entries, entryToCheck)) {
-      toast.error("Entry dates must follow chronological order", {
-        style: { backgroundColor: '#fee2e2', color: '#dc2626' }
-      });
-      setValidationErrors(prev => ({ ...prev, startDate: true, endDate: true }));
-      formRefs.current.startDate?.scrollIntoView({ behavior: 'smooth', block: 'center' });
-      return;
-    }
-
     const success = addEntry(newEntry);
     if (success) {
       // Reset form to default state
-      setStartDate(undefined);
-      setEndDate(undefined);
-      
-      // Reset other fields
-      const resetEntry: Omit<TimelineEntryType, "id"> = {
+      const resetEntry: TimelineEntryInput = {
         ...emptyEntry,
-        startDate: "",
         type: newEntry.type
       };
       
@@ -348,15 +313,8 @@ const Index = () => {
 
   // Function to clear the new entry form
   const handleClearForm = () => {
-    setStartDate(undefined);
-    setEndDate(undefined);
-    
-    // Create a new object based on emptyEntry, ensuring startDate is cleared
-    const resetEntry: Omit<TimelineEntryType, "id"> = {
-      ...emptyEntry, // Spread the default empty entry (which has type: "education")
-      startDate: "", // Explicitly clear startDate
-      // Type should be correctly inferred from emptyEntry here
-    };
+    // Create a new object based on emptyEntry (which has type: "education")
+    const resetEntry: TimelineEntryInput = { ...emptyEntry };
     
     setNewEntry(resetEntry);
     setIsPresent(false);
@@ -383,78 +341,110 @@ const Index = () => {
     }
   };
 
-  const handleDownload = () => {
-    sendCVDocument(getCVData());
+  // The draft is only cleared once the server has the CV, so a failed send
+  // loses nothing
+  const handleDownload = async () => {
+    try {
+      await sendCVDocument(getCVData(), {
+        idempotencyKey: getSubmissionKey(),
+        renewIdempotencyKey: renewSubmissionKey
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to submit CV. Please try again.", {
+        style: { backgroundColor: '#fee2e2', color: '#dc2626' }
+      });
+      return;
+    }
+
     toast.success("CV Submitted");
+    await clearSavedDraft();
   };
 
-  const handleGapsClick = () => {
-    const gaps = identifyGaps(entries);
-    setShowGaps(!showGaps);
+  const handleSaveToFile = () => {
+    downloadCVDataFile(getCVData());
+    toast.success("CV saved to file");
+  };
 
-    if (gaps.length > 0) {
-      toast.info(`Found ${gaps.length} gap${gaps.length > 1 ? 's' : ''} in your timeline`);
-    } else {
-      toast.success("No gaps found in your timeline");
+  const handleLoadFromFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset the input so choosing the same file again still triggers a change
+    event.target.value = "";
+    if (!file) return;
+
+    const result = parseCVDataFile(await file.text());
+    if (result.success === false) {
+      toast.error("This file could not be loaded", {
+        description: (
+          <ul className="list-disc pl-4">
+            {result.issues.slice(0, 5).map((issue, index) => (
+              <li key={index}>{issue.path}: {issue.message}</li>
+            ))}
+            {result.issues.length > 5 && <li>…and {result.issues.length - 5} more</li>}
+          </ul>
+        ),
+        style: { backgroundColor: '#fee2e2', color: '#dc2626' }
+      });
+      return;
+    }
+
+    loadCVData(result.data);
+    toast.success(`Loaded ${result.data.entries.length} ${result.data.entries.length === 1 ? "entry" : "entries"} from file`);
+  };
+
+  // Prefill the new entry form with a gap entry covering exactly the missing months
+  const handleExplainGap = (gap: TimelineGap) => {
+    if (isFormModified) {
+      toast.warning("Please add or clear your current entry before explaining a gap.", {
+        style: { backgroundColor: '#fef3c7', color: '#ca8a04' }
+      });
+      formRefs.current.type?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
+
+    setNewEntry({
+      ...emptyEntry,
+      type: "gap",
+      title: "Gap/Break",
+      organization: "Gap Period",
+      startDate: gap.start,
+      endDate: gap.end
+    });
+    setIsPresent(false);
+    setValidationErrors({});
+    setIsFormModified(true);
+    formRefs.current.description?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    toast.info("Describe what you were doing during this gap, then click Add Entry");
+  };
+
+  const handleGenerateEducation = (systemId: string) => {
+    const skeleton = buildEducationSkeleton(personalInfo.dateOfBirth, systemId);
+    if (skeleton.length === 0) {
+      toast.error("Please add your date of birth in Personal Details first", {
+        style: { backgroundColor: '#fee2e2', color: '#dc2626' }
+      });
+      return;
     }
+
+    addEntries(skeleton);
+    toast.success(`Added ${skeleton.length} school ${skeleton.length === 1 ? "entry" : "entries"}. Fill in each one, or delete any that do not apply.`);
+  };
+
+  const handleAcknowledgeGap = (gap: TimelineGap) => {
+    acknowledgeGap(gap);
+    toast.success("Gap acknowledged");
   };
 
   const defaultFirstEntryStart = personalInfo.dateOfBirth 
-    ? getDefaultStartMonth(personalInfo.dateOfBirth)
-    : "";
+    ? getDefaultStartMonth(personalInfo.dateOfBirth, policy)
+    : null;
 
   if (personalInfo.dateOfBirth && !newEntry.startDate) {
     setNewEntry(prev => ({ ...prev, startDate: defaultFirstEntryStart }));
   }
 
-  const gaps = showGaps ? identifyGaps(entries) : [];
+  const plausibilityWarnings = findPlausibilityWarnings(entries, personalInfo.dateOfBirth);
 
   const handleFinishAndPreview = () => {
-    // Check if the new entry form has any data entered but is incomplete
-    let newEntryIncomplete = false;
-    
-    if (isFormModified) {
-      // Check if the current new entry has all required fields
-      const errors: Record<string, boolean> = {};
-      let requiredFields: (keyof TimelineEntryType)[] = ['description', 'startDate'];
-
-      if (newEntry.type === 'gap') {
-        // For gap entries, only description and dates are required
-        if (!isPresent) requiredFields.push('endDate');
-      } else if (newEntry.type === 'education') {
-        // For education, title, country, description, and dates are required
-        requiredFields = [
-          'title',
-          'country',
-          'description',
-          'startDate'
-        ];
-        if (!isPresent) requiredFields.push('endDate');
-      } else { // Assumes 'work' type
-        // For work entries, all fields are required
-        requiredFields = [
-          'title',
-          'organization',
-          'country',
-          'description',
-          'startDate'
-        ];
-        if (!isPresent) requiredFields.push('endDate');
-      }
-
-      // Check if any required field is missing
-      requiredFields.forEach(field => {
-        if (!newEntry[field] || 
-            (field === 'description' && isEmptyRichText(newEntry[field] as string))) {
-          errors[field] = true;
-        }
-      });
-
-      if (Object.keys(errors).length > 0) {
-        newEntryIncomplete = true;
-      }
-    }
-
     // If form is modified, show warning and block preview completely
     if (isFormModified) {
       setShowPreviewWarning(true);
@@ -466,24 +456,7 @@ const Index = () => {
     
     // Existing check for entries being edited
     const entryBeingEdited = entries.find(entry => entry.id === editingEntryId);
-    let isIncomplete = false;
-
-    if (entryBeingEdited) {
-      const { type, title, organization, country, startDate, endDate, description } = entryBeingEdited;
-      // Use helper to check if rich text description is effectively empty
-      const isDescriptionEmpty = !description || isEmptyRichText(description);
-      
-      if (type === 'gap') {
-        // Required: startDate, endDate (if not present), description
-        isIncomplete = !startDate || (!endDate && endDate !== 'present') || isDescriptionEmpty;
-      } else if (type === 'education') {
-        // Required: title, country, startDate, endDate (if not present), description
-        isIncomplete = !title || !country || !startDate || (!endDate && endDate !== 'present') || isDescriptionEmpty;
-      } else { // 'work'
-        // Required: title, organization, country, startDate, endDate (if not present), description
-        isIncomplete = !title || !organization || !country || !startDate || (!endDate && endDate !== 'present') || isDescriptionEmpty;
-      }
-    }
+    const isIncomplete = entryBeingEdited && isEntryIncomplete(entryBeingEdited);
 
     if (isIncomplete && entryBeingEdited) {
       setHasIncompleteEntries(true);
@@ -499,6 +472,27 @@ const Index = () => {
       setShowPreviewWarning(false);
     }
 
+    // Skeleton entries such as school stages are added without their details.
+    // Open the first one still missing some so the form shows what is needed.
+    if (incompleteEntryIds.length > 0) {
+      toast.error(incompleteEntryIds.length === 1
+        ? "Please complete this entry before previewing."
+        : `Please complete your ${incompleteEntryIds.length} incomplete entries before previewing, starting with this one.`, {
+        style: { backgroundColor: '#fee2e2', color: '#dc2626' }
+      });
+      startEditingEntry(incompleteEntryIds[0]);
+      document.getElementById(`entry-${incompleteEntryIds[0]}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
+
+    if (unexplainedGaps.length > 0) {
+      toast.error("Please explain or acknowledge every gap in your timeline before previewing.", {
+        style: { backgroundColor: '#fee2e2', color: '#dc2626' }
+      });
+      document.getElementById('timeline-gaps')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
+
     if (editingEntryId) {
       cancelEditingEntry();
     }
@@ -507,23 +501,7 @@ const Index = () => {
   };
 
   // Add a function to check if an entry is incomplete
-  const isEntryIncomplete = (entry: TimelineEntryType): boolean => {
-    const { type, title, organization, country, startDate, endDate, description } = entry;
-    // Use helper to check if rich text description is effectively empty
-    const isDescriptionEmpty = !description || isEmptyRichText(description);
-    
-    if (type === 'gap') {
-      // Required: startDate, endDate (if not present), description
-      return !startDate || (!endDate && endDate !== 'present') || isDescriptionEmpty;
-    } else if (type === 'education') {
-      // Required: title, country, startDate, endDate (if not present), description
-      // Organization is optional
-      return !title || !country || !startDate || (!endDate && endDate !== 'present') || isDescriptionEmpty;
-    } else { // 'work'
-      // Required: title, organization, country, startDate, endDate (if not present), description
-      return !title || !organization || !country || !startDate || (!endDate && endDate !== 'present') || isDescriptionEmpty;
-    }
-  };
+  const isEntryIncomplete = (entry: TimelineEntryType): boolean => hasErrors(validateEntry(entry));
 
   // Wrap the startEditingEntry function to check for incomplete entries
   const handleStartEditing = (entryId: string) => {
@@ -551,6 +529,9 @@ const Index = () => {
         data={getCVData()}
         onBack={togglePreviewMode}
         onDownload={handleDownload}
+        submissionKey={getSubmissionKey()}
+        renewSubmissionKey={renewSubmissionKey}
+        onSubmitted={clearSavedDraft}
       />
     );
   }
@@ -559,19 +540,47 @@ const Index = () => {
     <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 py-8 px-4 sm:px-6">
       <div className="max-w-4xl mx-auto">
         <header className="text-center mb-10">
-          <img 
-            src="" 
-            alt="" 
-            className="h-16 mx-auto mb-3"
-          />
-          <h1 className="text-3xl font-bold tracking-tight text-gray-900 sm:text-4xl">
-            Royacare Agency CV Builder
+          {tenant.logoUrl && (
+            <img 
+              src={tenant.logoUrl} 
+              alt={tenant.name} 
+              className="h-16 mx-auto mb-3"
+            />
+          )}
+          <h1 className="text-3xl font-bold tracking-tight sm:text-4xl" style={{ color: tenant.colors.primary }}>
+            {tenant.appTitle}
           </h1>
           <p className="mt-3 text-lg text-gray-600 max-w-2xl mx-auto">
             Build your chronological CV easily, ensuring all entries follow each other in sequence from earliest to present 
 
-First entry must be when you are between age 1-11 i.e Primary/Secondary School
+First entry must be when you are between age {policy.firstEntryMinAge}-{policy.firstEntryMaxAge} i.e Primary/Secondary School
           </p>
+          <div className="mt-4 flex justify-center gap-2">
+            <Button variant="outline" size="sm" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+              <Undo2 className="h-4 w-4 mr-2" /> Undo
+            </Button>
+            <Button variant="outline" size="sm" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="h-4 w-4 mr-2" /> Redo
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleSaveToFile}>
+              <Download className="h-4 w-4 mr-2" /> Save to file
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" /> Load from file
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleLoadFromFile}
+            />
+          </div>
+          {isAutosaveFailing && (
+            <p className="mt-2 text-sm text-amber-700">
+              Your changes are not being saved in this browser. Use "Save to file" to keep a copy.
+            </p>
+          )}
         </header>
 
         <PersonalDetails 
@@ -583,9 +592,6 @@ First entry must be when you are between age 1-11 i.e Primary/Secondary School
           {/* <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-semibold">Timeline Entries</h2>
             <div className="flex space-x-2">
-              <Button variant="outline" size="sm" onClick={handleGapsClick}>
-                {showGaps ? "Hide Gaps" : "Show Gaps"}
-              </Button>
               <Button variant="outline" size="sm" onClick={togglePreviewMode}>
                 <Eye className="h-4 w-4 mr-2" /> Preview
               </Button>
@@ -596,6 +602,10 @@ First entry must be when you are between age 1-11 i.e Primary/Secondary School
           </div> */}
 
           <div className="space-y-4 mb-6">
+            {personalInfo.dateOfBirth && !entries.some(entry => entry.type === "education") && (
+              <EducationSkeletonPrompt onGenerate={handleGenerateEducation} />
+            )}
+
             {entries.length === 0 ? (
               <Card className="text-center p-6 bg-muted/50">
                 {/* <p className="text-muted-foreground">
@@ -604,45 +614,43 @@ First entry must be when you are between age 1-11 i.e Primary/Secondary School
               </Card>
             ) : (
               <div>
-                {entries
-                  .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())
-                  .map((entry) => (
+                {groupConcurrentEntries(entries).map(({ entry, concurrent }) => {
+                  const renderEntry = (groupEntry: TimelineEntryType) => (
                     <TimelineEntry
-                      key={entry.id}
-                      entry={entry}
-                      isEditing={editingEntryId === entry.id}
+                      key={groupEntry.id}
+                      entry={groupEntry}
+                      isEditing={editingEntryId === groupEntry.id}
                       onSave={handleEntryUpdate}
-                      onDelete={() => removeEntry(entry.id)}
-                      onEdit={() => handleStartEditing(entry.id)}
+                      onDelete={() => removeEntry(groupEntry.id)}
+                      onEdit={() => handleStartEditing(groupEntry.id)}
                       onCancel={handleCancelEditing}
+                      warnings={plausibilityWarnings.filter(warning => warning.entryId === groupEntry.id)}
                     />
-                  ))}
+                  );
+
+                  // Concurrent entries sit beside the entry they overlap, unless
+                  // one of them is being edited and needs the full width
+                  const isEditingGroup = [entry, ...concurrent].some(groupEntry => groupEntry.id === editingEntryId);
+                  if (concurrent.length === 0 || isEditingGroup) {
+                    return [entry, ...concurrent].map(renderEntry);
+                  }
+
+                  return (
+                    <div key={entry.id} className="grid gap-4 md:grid-cols-2">
+                      <div>{renderEntry(entry)}</div>
+                      <div>{concurrent.map(renderEntry)}</div>
+                    </div>
+                  );
+                })}
               </div>
             )}
 
-            {showGaps && gaps.length > 0 && (
-              <div className="mt-4">
-                <h3 className="text-lg font-medium mb-2">Timeline Gaps</h3>
-                <div className="space-y-2">
-                  {gaps.map((gap, index) => (
-                    <Card key={index} className="border-l-4 border-l-amber-400">
-                      <CardHeader className="py-3">
-                        <CardTitle className="text-base">Gap in Timeline</CardTitle>
-                        <CardDescription>
-                          From {gap.start ? new Date(gap.start).toLocaleDateString('en-US', {
-                            year: 'numeric',
-                            month: 'long'
-                          }) : 'Unknown'} to {gap.end ? new Date(gap.end).toLocaleDateString('en-US', {
-                            year: 'numeric',
-                            month: 'long'
-                          }) : 'Unknown'}
-                        </CardDescription>
-                      </CardHeader>
-                    </Card>
-                  ))}
-                </div>
-              </div>
-            )}
+            <GapResolutionList
+              gaps={unexplainedGaps}
+              thresholdMonths={policy.gapThresholdMonths}
+              onExplain={handleExplainGap}
+              onAcknowledge={handleAcknowledgeGap}
+            />
           </div>
 
           <Card className="entry-card">
@@ -730,10 +738,11 @@ First entry must be when you are between age 1-11 i.e Primary/Secondary School
                     Start Date
                     {validationErrors.startDate && <span className="text-red-500 ml-1">*</span>}
                   </Label>
-                  <MonthYearPicker
-                    date={startDate}
+                  <PartialDatePicker
+                    id="new-startDate"
+                    date={newEntry.startDate}
                     setDate={handleStartDateChange}
-                    placeholder="Select month/year"
+                    placeholder="Select date"
                     className={cn(validationErrors.startDate && "border-red-500 focus:ring-red-500")}
                   />
                 </div>
@@ -760,10 +769,11 @@ First entry must be when you are between age 1-11 i.e Primary/Secondary School
                   </div>
                   
                   <div className="relative">
-                    <MonthYearPicker
-                      date={endDate}
+                    <PartialDatePicker
+                      id="new-endDate"
+                      date={newEntry.endDate === "present" ? null : newEntry.endDate}
                       setDate={handleEndDateChange}
-                      placeholder="Select month/year"
+                      placeholder="Select date"
                       disabled={isPresent}
                       className={cn(
                         isPresent && "opacity-50",
@@ -773,6 +783,34 @@ First entry must be when you are between age 1-11 i.e Primary/Secondary School
                   </div>
                 </div>
               </div>
+
+              {newEntry.type === "work" && !isPresent && (
+                <div className="space-y-2 mb-4" ref={el => formRefs.current.reasonForLeaving = el}>
+                  <Label htmlFor="new-reasonForLeaving">Reason for Leaving</Label>
+                  <Input
+                    id="new-reasonForLeaving"
+                    value={newEntry.reasonForLeaving || ""}
+                    onChange={(e) => handleNewEntryChange("reasonForLeaving", e.target.value)}
+                    placeholder="e.g. End of contract, relocated, career change"
+                  />
+                </div>
+              )}
+
+              {newEntry.type !== "gap" && (
+                <div className="flex items-center space-x-2 mb-4" ref={el => formRefs.current.concurrent = el}>
+                  <Switch
+                    id="new-concurrent"
+                    checked={!!newEntry.concurrent}
+                    onCheckedChange={handleConcurrentToggle}
+                  />
+                  <Label
+                    htmlFor="new-concurrent"
+                    className={cn("text-sm cursor-pointer", validationErrors.concurrent && "text-red-500")}
+                  >
+                    Held at the same time as another entry, e.g. part-time study while working
+                  </Label>
+                </div>
+              )}
               
               <div className="space-y-2" ref={el => formRefs.current.description = el}>
                 <Label htmlFor="new-description" className="flex items-center">
@@ -829,8 +867,27 @@ First entry must be when you are between age 1-11 i.e Primary/Secondary School
           </div>
         </div>
 
+        <p className="mt-10 text-xs text-center text-gray-500 max-w-2xl mx-auto">
+          {tenant.privacyNotice}
+        </p>
+
         <div className="h-20"></div>
       </div>
+
+      <AlertDialog open={!!pendingDraft}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore your draft?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDraft && `We found a CV you were working on, last saved ${format(parseISO(pendingDraft.savedAt), "d MMMM yyyy 'at' HH:mm")}. Would you like to continue where you left off?`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={discardDraft}>Start again</AlertDialogCancel>
+            <AlertDialogAction onClick={restoreDraft}>Restore draft</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,142 @@
+import { saveAs } from 'file-saver';
+import { API_URL } from './api';
+import { CVData } from './cvUtils';
+import { fromCVDataJSON } from './cvSchema';
+
+// Client for the recruiter dashboard endpoints under /api/admin
+
+const ADMIN_TOKEN_KEY = 'cv-chronologizer:admin-token';
+
+// 'email_failed' is final: the server has given up retrying the email
+export type SubmissionStatus = 'received' | 'email_retrying' | 'emailed' | 'email_failed';
+
+export const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+  received: 'Received',
+  email_retrying: 'Retrying email',
+  emailed: 'Emailed',
+  email_failed: 'Email failed'
+};
+
+export interface SubmissionEmail {
+  attempts?: number;
+  lastAttemptAt?: string;
+  nextAttemptAt?: string;
+  messageId?: string;
+  sentAt?: string;
+  error?: string;
+  failedAt?: string;
+}
+
+export interface SubmissionFile {
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+export interface SubmissionSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  status: SubmissionStatus;
+  origin: string | null;
+  tenantId: string;
+  templateId: string | null;
+  candidate: {
+    firstName: string;
+    lastName: string;
+    email?: string;
+    emailVerified?: boolean; // confirmed with a one-time code before submitting
+    postcode?: string;
+  };
+  files: Partial<Record<'docx' | 'pdf', SubmissionFile>>;
+  email: SubmissionEmail | null;
+  hasData: boolean;
+}
+
+export interface Submission extends Omit<SubmissionSummary, 'hasData'> {
+  data: CVData | null;
+}
+
+export interface SubmissionFilters {
+  q?: string;
+  status?: SubmissionStatus;
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+}
+
+// Thrown for a missing or wrong token so the dashboard can ask for it again
+export class AdminAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AdminAuthError';
+  }
+}
+
+// The token lives for the browser session only
+export const getAdminToken = (): string | null => sessionStorage.getItem(ADMIN_TOKEN_KEY);
+
+export const setAdminToken = (token: string | null): void => {
+  if (token) {
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+  } else {
+    sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+  }
+};
+
+const adminFetch = async (path: string, token: string | null = getAdminToken(), method = 'GET'): Promise<Response> => {
+  const response = await fetch(`${API_URL}/api/admin${path}`, {
+    method,
+    mode: 'cors',
+    credentials: 'omit',
+    headers: {
+      'Accept': 'application/json',
+      'Authorization': `Bearer ${token || ''}`
+    }
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const message = errorData.error || `Server error: ${response.status} ${response.statusText}`;
+    throw response.status === 401 ? new AdminAuthError(message) : new Error(message);
+  }
+
+  return response;
+};
+
+export const verifyAdminToken = async (token: string): Promise<void> => {
+  await adminFetch('/session', token);
+};
+
+export const fetchSubmissions = async (filters: SubmissionFilters): Promise<SubmissionSummary[]> => {
+  const params = new URLSearchParams(
+    Object.entries(filters).filter(([, value]) => !!value) as [string, string][]
+  );
+  const response = await adminFetch(`/submissions?${params}`);
+  const result = await response.json();
+  return result.submissions;
+};
+
+// The API sends the CV as JSON, which is checked before it is used
+const toSubmission = (submission: Omit<Submission, 'data'> & { data: unknown }): Submission =>
+  ({ ...submission, data: submission.data ? fromCVDataJSON(submission.data) : null });
+
+export const fetchSubmission = async (id: string): Promise<Submission> => {
+  const response = await adminFetch(`/submissions/${encodeURIComponent(id)}`);
+  const result = await response.json();
+  return toSubmission(result.submission);
+};
+
+// Queues the agency's email again. Resolves with the submission after the
+// first new attempt, so its status shows whether that one went through.
+export const resendSubmissionEmail = async (id: string): Promise<Submission> => {
+  const response = await adminFetch(`/submissions/${encodeURIComponent(id)}/resend`, getAdminToken(), 'POST');
+  const result = await response.json();
+  return toSubmission(result.submission);
+};
+
+export const downloadSubmissionDocument = async (submission: SubmissionSummary | Submission, format: 'docx' | 'pdf'): Promise<void> => {
+  const response = await adminFetch(`/submissions/${encodeURIComponent(submission.id)}/document/${format}`);
+  const blob = await response.blob();
+  const { firstName, lastName } = submission.candidate;
+  saveAs(blob, `${firstName}_${lastName}_CV.${format}`);
+};
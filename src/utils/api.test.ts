@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SubmissionInProgressError, submitCV } from "./api";
+import type { CVData } from "./cvUtils";
+
+const DATA: CVData = { personalInfo: { firstName: "Ada", lastName: "Lovelace" }, entries: [] };
+
+const jsonResponse = (status: number, body: object) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const IN_PROGRESS = { error: "This submission is already being processed", code: "idempotency_request_in_progress" };
+
+describe("submitCV", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  const sentKeys = () => fetchMock.mock.calls.map(([, init]) => (init.headers as Record<string, string>)["Idempotency-Key"]);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("waits for a request with the same key that is still in progress", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(409, IN_PROGRESS))
+      .mockResolvedValueOnce(jsonResponse(200, { success: true, submissionId: "s1" }));
+
+    const submission = submitCV(DATA, { idempotencyKey: "key-00000001" });
+    await vi.runAllTimersAsync();
+
+    expect(await submission).toBe("s1");
+    expect(sentKeys()).toEqual(["key-00000001", "key-00000001"]);
+  });
+
+  it("gives up waiting after a while", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(409, IN_PROGRESS));
+
+    const submission = submitCV(DATA, { idempotencyKey: "key-00000001" });
+    const rejection = expect(submission).rejects.toBeInstanceOf(SubmissionInProgressError);
+    await vi.runAllTimersAsync();
+
+    await rejection;
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  it("sends again with a new key when the key was used for a different CV", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(422, { error: "Already submitted", code: "idempotency_key_reused" }))
+      .mockResolvedValueOnce(jsonResponse(200, { success: true, submissionId: "s2" }));
+    const renewIdempotencyKey = vi.fn(() => "key-00000002");
+
+    expect(await submitCV(DATA, { idempotencyKey: "key-00000001", renewIdempotencyKey })).toBe("s2");
+    expect(renewIdempotencyKey).toHaveBeenCalledTimes(1);
+    expect(sentKeys()).toEqual(["key-00000001", "key-00000002"]);
+  });
+
+  it("renews the key only once", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(422, { error: "Already submitted", code: "idempotency_key_reused" }));
+
+    await expect(submitCV(DATA, { idempotencyKey: "key-00000001", renewIdempotencyKey: () => "key-00000002" }))
+      .rejects.toThrow("Already submitted");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
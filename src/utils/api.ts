@@ -1,17 +1,123 @@
+import { CVData } from './cvUtils';
+import { CVFileIssue, parseValidationPolicy, toCVDataJSON } from './cvSchema';
+import { ValidationPolicy } from './validation';
+
 // API configuration
-const API_URL = process.env.NODE_ENV === 'production'
+export const API_URL = process.env.NODE_ENV === 'production'
   ? 'https://cv-chronologizer-main-production.up.railway.app'  // Replace with your actual Render service URL
   : 'http://localhost:3001';
 
-export const sendCV = async (file: File, firstName: string, lastName: string): Promise<void> => {
-  const formData = new FormData();
-  formData.append('cv', file);
-  formData.append('firstName', firstName);
-  formData.append('lastName', lastName);
+// Thrown when the server rejects submitted CV data, with the reasons per field
+export class CVValidationError extends Error {
+  issues: CVFileIssue[];
 
-  const response = await fetch(`${API_URL}/api/send-cv`, {
-    method: 'POST',
-    body: formData,
+  constructor(message: string, issues: CVFileIssue[]) {
+    super(message);
+    this.name = 'CVValidationError';
+    this.issues = issues;
+  }
+}
+
+// Thrown when the server refuses a submission because too many were sent
+export class SubmissionRateLimitError extends Error {
+  retryAfterSeconds: number | null;
+
+  constructor(message: string, retryAfterSeconds: number | null) {
+    super(message);
+    this.name = 'SubmissionRateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// Thrown when an earlier request for the same draft is still being handled
+// after waiting for it, so the candidate should not submit again yet
+export class SubmissionInProgressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubmissionInProgressError';
+  }
+}
+
+export interface SubmitCVOptions {
+  templateId?: string;
+  // Repeats with the same key get the first submission's ID instead of
+  // making another one
+  idempotencyKey?: string;
+  // Replaces the key once the server says it was used for a different CV,
+  // and returns the new one
+  renewIdempotencyKey?: () => string;
+  // From verifyEmailCode, so the submission records the email as verified
+  emailVerificationToken?: string;
+}
+
+// Waits before asking again while the server is still handling an earlier
+// request with the same key, e.g. after a double click
+const IN_PROGRESS_RETRY_DELAYS_MS = [1000, 2000, 4000, 8000];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Returns the ID under which the server stored the submission
+export const submitCV = async (
+  data: CVData,
+  { templateId, idempotencyKey, renewIdempotencyKey, emailVerificationToken }: SubmitCVOptions = {}
+): Promise<string> => {
+  const body = JSON.stringify({ data: toCVDataJSON(data), templateId, emailVerificationToken });
+  let key = idempotencyKey;
+  let inProgressRetries = 0;
+  let isKeyRenewed = false;
+
+  for (;;) {
+    const response = await fetch(`${API_URL}/api/submit-cv`, {
+      method: 'POST',
+      body,
+      mode: 'cors',
+      credentials: 'omit',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        ...(key ? { 'Idempotency-Key': key } : {})
+      }
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 409 && errorData.code === 'idempotency_request_in_progress') {
+        if (inProgressRetries < IN_PROGRESS_RETRY_DELAYS_MS.length) {
+          await wait(IN_PROGRESS_RETRY_DELAYS_MS[inProgressRetries++]);
+          continue;
+        }
+        throw new SubmissionInProgressError('Your CV is still being submitted. Please wait a moment before trying again.');
+      }
+      if (response.status === 422 && errorData.code === 'idempotency_key_reused' && renewIdempotencyKey && !isKeyRenewed) {
+        key = renewIdempotencyKey();
+        isKeyRenewed = true;
+        continue;
+      }
+      if (response.status === 422 && Array.isArray(errorData.issues)) {
+        throw new CVValidationError(errorData.error || 'The CV data is not valid', errorData.issues);
+      }
+      if (response.status === 429) {
+        const retryAfter = parseInt(response.headers.get('Retry-After') || '');
+        throw new SubmissionRateLimitError(
+          errorData.error || 'Too many submissions. Please try again later.',
+          Number.isNaN(retryAfter) ? null : retryAfter
+        );
+      }
+      throw new Error(errorData.error || `Server error: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send CV');
+    }
+
+    return result.submissionId;
+  }
+};
+
+// The tenant's validation policy as the server enforces it
+export const fetchPolicy = async (tenantId: string): Promise<ValidationPolicy> => {
+  const response = await fetch(`${API_URL}/api/policy?tenant=${encodeURIComponent(tenantId)}`, {
     mode: 'cors',
     credentials: 'omit',
     headers: {
@@ -20,12 +126,44 @@ export const sendCV = async (file: File, firstName: string, lastName: string): P
   });
 
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.error || `Server error: ${response.status} ${response.statusText}`);
+    throw new Error(`Server error: ${response.status} ${response.statusText}`);
   }
 
   const result = await response.json();
-  if (!result.success) {
-    throw new Error(result.error || 'Failed to send CV');
+  const parsed = parseValidationPolicy(result.policy);
+  if (!parsed.success) {
+    throw new Error('The server sent an invalid policy');
+  }
+
+  return parsed.policy;
+};
+
+const postEmailVerification = async (path: string, body: object) => {
+  const response = await fetch(`${API_URL}/api/email-verification${path}`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    mode: 'cors',
+    credentials: 'omit',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json'
+    }
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `Server error: ${response.status} ${response.statusText}`);
   }
-}; 
\ No newline at end of file
+  return result;
+};
+
+// Emails a 6-digit code to the candidate
+export const requestEmailVerificationCode = async (email: string): Promise<void> => {
+  await postEmailVerification('/send', { email });
+};
+
+// Returns a token to submit with the CV as proof the email was verified
+export const verifyEmailCode = async (email: string, code: string): Promise<string> => {
+  const result = await postEmailVerification('/verify', { email, code });
+  return result.token;
+};
@@ -0,0 +1,148 @@
+import { CVData, TimelineEntry, TimelineGap, identifyGaps, parseDateString } from "./cvUtils";
+import { DEFAULT_VALIDATION_POLICY, ValidationPolicy, formatGapPeriod, isSameGap } from "./validation";
+import { earliestMonth, formatDateForDisplay, fromMonthIndex, latestMonth, parseYearMonth, toMonthIndex } from "./yearMonth";
+
+// Safer-recruitment checks for care agencies, which must hold a full
+// employment history with a written explanation for every gap. Unlike the
+// validation rules these do not stop a CV being submitted: the report is
+// shown to the candidate and sent to the agency with the CV.
+
+export type ComplianceCheckId = "coverage" | "gaps" | "reasons_for_leaving" | "employer_details";
+
+export interface ComplianceCheck {
+  id: ComplianceCheckId;
+  label: string;
+  passed: boolean;
+  details: string[]; // what is missing when the check fails
+}
+
+export interface ComplianceReport {
+  passed: boolean;
+  checks: ComplianceCheck[];
+}
+
+const formatMonths = (months: number) => `${months} ${months === 1 ? "month" : "months"}`;
+
+const describeEntry = (entry: TimelineEntry): string => {
+  const name = [entry.title, entry.organization].filter(Boolean).join(" at ") || "Untitled entry";
+  return `${name} (${formatDateForDisplay(entry.startDate)} - ${formatDateForDisplay(entry.endDate)})`;
+};
+
+// First month the history must cover, as a month index: the month the
+// candidate reached school leaving age, or the start of the required history
+// length if that is later
+const getHistoryStartMonth = (dateOfBirth: string | undefined, policy: ValidationPolicy): number | null => {
+  const birthMonth = parseYearMonth(parseDateString(dateOfBirth));
+  if (!birthMonth) return null;
+
+  const schoolLeavingMonth = toMonthIndex(birthMonth) + policy.schoolLeavingAge * 12;
+  return policy.requiredHistoryYears === null
+    ? schoolLeavingMonth
+    : Math.max(schoolLeavingMonth, toMonthIndex("present") - policy.requiredHistoryYears * 12);
+};
+
+const checkCoverage = (entries: TimelineEntry[], dateOfBirth: string | undefined, policy: ValidationPolicy): ComplianceCheck => {
+  const label = policy.requiredHistoryYears === null
+    ? `History covers every month from age ${policy.schoolLeavingAge} to today`
+    : `History covers every month of the last ${policy.requiredHistoryYears} years (from age ${policy.schoolLeavingAge} at the earliest)`;
+  const from = getHistoryStartMonth(dateOfBirth, policy);
+
+  if (from === null) {
+    return { id: "coverage", label, passed: false, details: ["Date of birth is missing"] };
+  }
+  if (entries.length === 0) {
+    return { id: "coverage", label, passed: false, details: ["No entries have been added"] };
+  }
+
+  const today = toMonthIndex("present");
+  const firstMonth = Math.min(...entries.map(entry => earliestMonth(entry.startDate)));
+  const lastMonth = Math.max(...entries.map(entry => latestMonth(entry.endDate)));
+  const details: string[] = [];
+
+  // Gaps between entries are reported by checkGaps
+  const missingBefore = firstMonth - from;
+  if (missingBefore > policy.gapThresholdMonths) {
+    details.push(`Nothing recorded from ${formatGapPeriod({
+      start: fromMonthIndex(from),
+      end: fromMonthIndex(firstMonth - 1),
+      months: missingBefore
+    })}`);
+  }
+
+  const missingAfter = today - lastMonth;
+  if (missingAfter > policy.gapThresholdMonths) {
+    details.push(`Nothing recorded for the last ${formatMonths(missingAfter)}, since ${formatDateForDisplay(fromMonthIndex(lastMonth + 1))}`);
+  }
+
+  return { id: "coverage", label, passed: details.length === 0, details };
+};
+
+// Acknowledging a gap lets the candidate preview their CV, but it is not a
+// written explanation, so acknowledged gaps still fail this check
+const checkGaps = (
+  entries: TimelineEntry[],
+  dateOfBirth: string | undefined,
+  policy: ValidationPolicy,
+  acknowledgedGaps: TimelineGap[]
+): ComplianceCheck => {
+  const from = getHistoryStartMonth(dateOfBirth, policy);
+  const details = identifyGaps(entries)
+    .filter(gap => gap.months > policy.gapThresholdMonths)
+    .filter(gap => from === null || toMonthIndex(gap.end) >= from)
+    .map(gap => {
+      const acknowledged = acknowledgedGaps.some(other => isSameGap(other, gap));
+      return `${formatMonths(gap.months)} (${formatGapPeriod(gap)})${acknowledged ? " was acknowledged but not explained" : " is not explained"}`;
+    });
+
+  return {
+    id: "gaps",
+    label: `Every gap longer than ${formatMonths(policy.gapThresholdMonths)} has a written explanation`,
+    passed: details.length === 0,
+    details
+  };
+};
+
+const checkReasonsForLeaving = (entries: TimelineEntry[]): ComplianceCheck => {
+  const details = entries
+    .filter(entry => entry.type === "work" && entry.endDate !== "present" && !entry.reasonForLeaving?.trim())
+    .map(describeEntry);
+
+  return {
+    id: "reasons_for_leaving",
+    label: "Every previous job has a reason for leaving",
+    passed: details.length === 0,
+    details
+  };
+};
+
+const checkEmployerDetails = (entries: TimelineEntry[]): ComplianceCheck => {
+  const details = entries
+    .filter(entry => entry.type === "work")
+    .flatMap(entry => {
+      const missing = [
+        !entry.title?.trim() && "job title",
+        !entry.organization?.trim() && "employer name",
+        !entry.country?.trim() && "country"
+      ].filter(Boolean);
+      return missing.length > 0 ? [`${describeEntry(entry)}: missing ${missing.join(", ")}`] : [];
+    });
+
+  return {
+    id: "employer_details",
+    label: "Every job names the employer, role and country",
+    passed: details.length === 0,
+    details
+  };
+};
+
+export const buildComplianceReport = (data: CVData, policy: ValidationPolicy = DEFAULT_VALIDATION_POLICY): ComplianceReport => {
+  const { personalInfo, entries, acknowledgedGaps = [] } = data;
+  const checks = [
+    checkCoverage(entries, personalInfo.dateOfBirth, policy),
+    checkGaps(entries, personalInfo.dateOfBirth, policy, acknowledgedGaps),
+    checkReasonsForLeaving(entries),
+    checkEmployerDetails(entries)
+  ];
+
+  return { passed: checks.every(check => check.passed), checks };
+};
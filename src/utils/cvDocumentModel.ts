@@ -0,0 +1,142 @@
+import { format, parseISO } from "date-fns";
+import { CVData, EntryType, TimelineEntry, groupConcurrentEntries, parseDateString } from "./cvUtils";
+import { formatDateForDisplay } from "./yearMonth";
+import { CVTemplate, getCVTemplate } from "./cvTemplates";
+import { getTenant } from "./tenants";
+
+// Renderer-agnostic description of a CV. Built once from CVData and consumed by
+// the DOCX, PDF and preview renderers so every output shows the same content
+// in the same order.
+
+export interface CVDocumentEntry {
+  id: string;
+  type: EntryType;
+  label: string; // e.g. "Education"
+  heading: string; // organization and country
+  dateRange: string;
+  title: string;
+  description: string; // HTML from the rich text editor
+  reasonForLeaving: string; // empty unless the candidate gave one
+  concurrent: CVDocumentEntry[]; // entries held at the same time, shown beside this one
+}
+
+export interface CVDocumentDetailsSection {
+  kind: "details";
+  heading: string;
+  lines: string[]; // date of birth, address and contact details
+}
+
+export interface CVDocumentHistorySection {
+  kind: "history";
+  heading: string;
+  entries: CVDocumentEntry[]; // main track in start order
+}
+
+export type CVDocumentSection = CVDocumentDetailsSection | CVDocumentHistorySection;
+
+export interface CVDocumentModel {
+  template: CVTemplate;
+  title: string;
+  name: string;
+  sections: CVDocumentSection[]; // in the template's section order
+  branding: {
+    agencyName: string;
+    headingColor: string; // hex
+    header?: string; // repeated at the top of every page
+    footer?: string; // repeated at the bottom of every page
+  };
+  fileBaseName: string;
+  metadata: {
+    title: string;
+    creator: string;
+    description: string;
+  };
+}
+
+export const ENTRY_TYPE_LABELS: Record<EntryType, string> = {
+  education: "Education",
+  work: "Work Experience",
+  gap: "Gap/Break"
+};
+
+const toDocumentEntry = (entry: TimelineEntry, concurrent: CVDocumentEntry[] = []): CVDocumentEntry => ({
+  id: entry.id,
+  type: entry.type,
+  label: ENTRY_TYPE_LABELS[entry.type],
+  heading: [entry.organization, entry.country].filter(Boolean).join(", "),
+  dateRange: `${formatDateForDisplay(entry.startDate)} - ${formatDateForDisplay(entry.endDate)}`,
+  title: entry.title,
+  description: entry.description,
+  reasonForLeaving: entry.type === "work" && entry.endDate !== "present" ? entry.reasonForLeaving?.trim() || "" : "",
+  concurrent
+});
+
+const formatDateOfBirth = (dateOfBirth: string): string | null => {
+  const isoDob = parseDateString(dateOfBirth);
+  if (!isoDob) return null;
+
+  try {
+    return format(parseISO(isoDob), "dd/MM/yyyy");
+  } catch (error) {
+    console.error("Error formatting DOB:", error);
+    return null;
+  }
+};
+
+export const buildCVDocumentModel = (data: CVData, templateId?: string, tenantId?: string): CVDocumentModel => {
+  const { personalInfo, entries } = data;
+  const template = getCVTemplate(templateId);
+  const tenant = getTenant(tenantId);
+  const name = `${personalInfo.firstName} ${personalInfo.lastName}`.trim();
+
+  const details: string[] = [];
+
+  const dob = personalInfo.dateOfBirth ? formatDateOfBirth(personalInfo.dateOfBirth) : null;
+  if (dob) {
+    details.push(`Date of Birth: ${dob}`);
+  }
+
+  if (personalInfo.address) {
+    details.push(`${personalInfo.address}${personalInfo.postcode ? `, ${personalInfo.postcode}` : ''}`);
+  }
+
+  const contact = [personalInfo.email, personalInfo.phone].filter(Boolean).join(" | ");
+  if (contact) {
+    details.push(contact);
+  }
+
+  const sections: Record<CVDocumentSection["kind"], CVDocumentSection> = {
+    details: {
+      kind: "details",
+      heading: "Personal Details",
+      lines: details
+    },
+    history: {
+      kind: "history",
+      heading: "Chronological History",
+      entries: groupConcurrentEntries(entries).map(group =>
+        toDocumentEntry(group.entry, group.concurrent.map(entry => toDocumentEntry(entry)))
+      )
+    }
+  };
+
+  return {
+    template,
+    title: template.title,
+    name,
+    sections: template.sectionOrder.map(kind => sections[kind]),
+    branding: {
+      agencyName: tenant.name,
+      headingColor: tenant.colors.primary,
+      header: tenant.document.header,
+      footer: tenant.document.footer
+    },
+    // Names end up in file names on the candidate's and the agency's machines
+    fileBaseName: `${personalInfo.firstName}_${personalInfo.lastName}_CV`.replace(/[\\/:*?"<>|\s]+/g, "_"),
+    metadata: {
+      title: `${name} CV`,
+      creator: "CV Chronologizer",
+      description: `CV generated by CV Chronologizer for ${tenant.name}`
+    }
+  };
+};
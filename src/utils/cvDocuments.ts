@@ -0,0 +1,66 @@
+import { saveAs } from "file-saver";
+import { Packer } from "docx";
+import { CVData } from "./cvUtils";
+import { serializeCVData } from "./cvSchema";
+import { buildCVDocumentModel } from "./cvDocumentModel";
+import { renderDocxDocument } from "./docxRenderer";
+import { renderPdfDocument } from "./pdfRenderer";
+import { SubmitCVOptions, submitCV } from "./api";
+
+export const generateCVDocument = async (data: CVData, shouldDownload: boolean = false, templateId?: string, tenantId?: string): Promise<Blob> => {
+  const model = buildCVDocumentModel(data, templateId, tenantId);
+
+  try {
+    console.log('Generating CV document...');
+    // Generate the document as a blob
+    const blob = await Packer.toBlob(renderDocxDocument(model));
+
+    // Only save locally if download is requested
+    if (shouldDownload) {
+      saveAs(blob, `${model.fileBaseName}.docx`);
+    }
+
+    return blob;
+  } catch (error) {
+    console.error('Error generating CV:', error);
+    throw error;
+  }
+};
+
+// Function for just downloading the CV locally
+export const downloadCVDocument = async (data: CVData, templateId?: string, tenantId?: string): Promise<void> => {
+  try {
+    await generateCVDocument(data, true, templateId, tenantId);
+    console.log('CV downloaded successfully');
+  } catch (error) {
+    console.error('Error downloading CV:', error);
+    throw error;
+  }
+};
+
+// Function to generate a PDF CV
+export const generatePDFDocument = async (data: CVData, templateId?: string, tenantId?: string): Promise<Blob> => {
+  const pdf = renderPdfDocument(buildCVDocumentModel(data, templateId, tenantId));
+  return pdf.output('blob');
+};
+
+// Function for sending the CV via email. The server validates the data and
+// renders the documents itself, so only the structured CV is uploaded.
+export const sendCVDocument = async (data: CVData, options?: SubmitCVOptions): Promise<string> => {
+  try {
+    console.log('Submitting CV data to server...');
+    const submissionId = await submitCV(data, options);
+    console.log('CV sent successfully');
+    return submissionId;
+  } catch (error) {
+    console.error('Error sending CV document:', error);
+    throw error;
+  }
+};
+
+// Function for saving the CV data as JSON so it can be loaded again later
+export const downloadCVDataFile = (data: CVData): void => {
+  const blob = new Blob([serializeCVData(data)], { type: "application/json" });
+  const name = [data.personalInfo.firstName, data.personalInfo.lastName].filter(Boolean).join("_") || "My";
+  saveAs(blob, `${name}_CV.json`);
+};
@@ -0,0 +1,349 @@
+import { z } from "zod";
+import { CVData, PersonalInfo, TimelineEntry, TimelineGap } from "./cvUtils";
+import { sanitizeRichText } from "./richText";
+import { ValidationIssue, ValidationPolicy, validateCVData } from "./validation";
+import {
+  PartialDate,
+  YearMonth,
+  formatTimelineDate,
+  formatYearMonth,
+  parsePartialDate,
+  parseYearMonth
+} from "./yearMonth";
+
+// Version of the JSON file format written by serializeCVData. Older files are
+// brought up to date by the migrations below before they are validated.
+export const CV_SCHEMA_VERSION = 2;
+
+// A month, season ("2004-23") or year, optionally approximate ("2004~"), or
+// a full date whose day is dropped
+const partialDatePattern = /^\d{4}(-\d{2})?(~|-\d{2})?$/;
+const monthOnlyPattern = /^\d{4}-\d{2}$/;
+const dayPattern = /^\d{4}-\d{2}-\d{2}$/;
+
+// Files and requests hold yyyy-MM strings, which are read into YearMonth values
+const toYearMonth = (value: string, ctx: z.RefinementCtx): YearMonth => {
+  const date = parseYearMonth(value);
+  if (!date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be a real month" });
+    return z.NEVER;
+  }
+  return date;
+};
+
+const yearMonthSchema = (pattern: RegExp) =>
+  z.string().regex(pattern, "Must be a date in YYYY-MM format").transform(toYearMonth);
+
+const toPartialDate = (value: string, ctx: z.RefinementCtx): PartialDate => {
+  const date = parsePartialDate(value);
+  if (!date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be a real month, season or year" });
+    return z.NEVER;
+  }
+  return date;
+};
+
+const PARTIAL_DATE_FORMAT_MESSAGE = "Must be a date in YYYY-MM or YYYY format";
+
+export const timelineEntrySchema = z.object({
+  id: z.string().min(1, "Entry ID is missing"),
+  type: z.enum(["education", "work", "gap"], {
+    errorMap: () => ({ message: "Must be education, work or gap" })
+  }),
+  title: z.string(),
+  organization: z.string(),
+  country: z.string(),
+  startDate: z.string().regex(partialDatePattern, PARTIAL_DATE_FORMAT_MESSAGE).transform(toPartialDate),
+  endDate: z.string()
+    .refine(
+      value => value === "present" || partialDatePattern.test(value),
+      `${PARTIAL_DATE_FORMAT_MESSAGE} or "present"`
+    )
+    .transform((value, ctx) => value === "present" ? "present" as const : toPartialDate(value, ctx)),
+  // Only the formatting the editor supports is kept, so no markup from a file
+  // or request is ever stored or shown as is
+  description: z.string().transform(sanitizeRichText),
+  concurrent: z.boolean().optional(),
+  reasonForLeaving: z.string().optional()
+});
+
+export const personalInfoSchema = z.object({
+  firstName: z.string(),
+  lastName: z.string(),
+  dateOfBirth: z.string().regex(dayPattern, "Must be a date in YYYY-MM-DD format").or(z.literal("")).optional(),
+  address: z.string().optional(),
+  postcode: z.string().optional(),
+  email: z.string().optional(),
+  phone: z.string().optional()
+});
+
+export const timelineGapSchema = z.object({
+  start: yearMonthSchema(monthOnlyPattern),
+  end: yearMonthSchema(monthOnlyPattern),
+  months: z.number().int().positive()
+});
+
+export const cvDataSchema = z.object({
+  personalInfo: personalInfoSchema,
+  entries: z.array(timelineEntrySchema),
+  acknowledgedGaps: z.array(timelineGapSchema).optional()
+});
+
+const cvFileSchema = z.object({
+  schemaVersion: z.literal(CV_SCHEMA_VERSION),
+  exportedAt: z.string().optional(),
+  personalInfo: personalInfoSchema,
+  entries: z.array(timelineEntrySchema),
+  acknowledgedGaps: z.array(timelineGapSchema).optional()
+});
+
+// CVData as it is written to files, drafts and requests, with dates as
+// strings: see formatTimelineDate for entry dates, and yyyy-MM for gaps
+export type TimelineEntryJSON = Omit<TimelineEntry, "startDate" | "endDate"> & { startDate: string; endDate: string };
+export type TimelineGapJSON = Omit<TimelineGap, "start" | "end"> & { start: string; end: string };
+
+export interface CVDataJSON {
+  personalInfo: PersonalInfo;
+  entries: TimelineEntryJSON[];
+  acknowledgedGaps?: TimelineGapJSON[];
+}
+
+export interface CVFileIssue {
+  path: string;
+  message: string;
+}
+
+export type CVFileParseResult =
+  | { success: true; data: CVData }
+  | { success: false; issues: CVFileIssue[] };
+
+type RawCVFile = Record<string, unknown>;
+
+// Each migration upgrades a file from the keyed version to the next one
+const migrations: Record<number, (file: RawCVFile) => RawCVFile> = {
+  // Version 0 is a bare CVData object without a schemaVersion. Entries could
+  // be missing optional text fields and IDs.
+  0: (file) => ({
+    ...file,
+    schemaVersion: 1,
+    entries: Array.isArray(file.entries)
+      ? file.entries.map((entry: unknown) =>
+          entry && typeof entry === "object"
+            ? {
+                organization: "",
+                country: "",
+                description: "",
+                ...entry,
+                id: (entry as RawCVFile).id || crypto.randomUUID()
+              }
+            : entry
+        )
+      : file.entries
+  }),
+  // Version 2 allows seasons, years and approximate dates. Every version 1
+  // date is still valid.
+  1: (file) => ({ ...file, schemaVersion: 2 })
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  id: "ID",
+  personalInfo: "Personal details",
+  firstName: "First name",
+  lastName: "Last name",
+  dateOfBirth: "Date of birth",
+  address: "Address",
+  postcode: "Postcode",
+  email: "Email",
+  phone: "Phone",
+  type: "Entry type",
+  title: "Title",
+  organization: "Organization",
+  country: "Country",
+  startDate: "Start date",
+  endDate: "End date",
+  description: "Description",
+  acknowledgedGaps: "Acknowledged gaps",
+  start: "Start",
+  end: "End",
+  months: "Months",
+  concurrent: "Concurrent",
+  reasonForLeaving: "Reason for leaving",
+  entries: "Entries",
+  schemaVersion: "File version",
+  gapThresholdMonths: "Gap threshold",
+  schoolLeavingAge: "School leaving age",
+  firstEntryMinAge: "Minimum first entry age",
+  firstEntryMaxAge: "Maximum first entry age",
+  minimumCandidateAge: "Minimum candidate age",
+  requiredHistoryYears: "Required history length"
+};
+
+// Turns a zod path such as ["entries", 2, "startDate"] into "Entry 3 › Start date"
+export const formatIssuePath = (path: (string | number)[]): string => {
+  const parts: string[] = [];
+
+  for (let i = 0; i < path.length; i++) {
+    const segment = path[i];
+    if (segment === "entries" && typeof path[i + 1] === "number") {
+      parts.push(`Entry ${(path[i + 1] as number) + 1}`);
+      i++;
+    } else {
+      parts.push(FIELD_LABELS[segment] || String(segment));
+    }
+  }
+
+  return parts.join(" › ") || "File";
+};
+
+export const toCVFileIssues = (error: z.ZodError): CVFileIssue[] =>
+  error.issues.map(issue => ({
+    path: formatIssuePath(issue.path),
+    message: issue.message
+  }));
+
+// Only errors block a CV, so warnings are left out
+export const toCVFileIssuesFromValidation = (issues: ValidationIssue[]): CVFileIssue[] =>
+  issues
+    .filter(issue => issue.severity === "error")
+    .map(issue => ({
+      path: formatIssuePath(issue.path),
+      message: issue.message
+    }));
+
+export const migrateCVFile = (file: RawCVFile): RawCVFile => {
+  let migrated = file;
+  let version = typeof file.schemaVersion === "number" ? file.schemaVersion : 0;
+
+  while (version < CV_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) break;
+    migrated = migrate(migrated);
+    version = migrated.schemaVersion as number;
+  }
+
+  return migrated;
+};
+
+export const toCVDataJSON = (data: CVData): CVDataJSON => ({
+  personalInfo: data.personalInfo,
+  entries: data.entries.map(entry => ({
+    ...entry,
+    startDate: formatTimelineDate(entry.startDate),
+    endDate: formatTimelineDate(entry.endDate)
+  })),
+  acknowledgedGaps: data.acknowledgedGaps?.map(gap => ({
+    ...gap,
+    start: formatYearMonth(gap.start),
+    end: formatYearMonth(gap.end)
+  }))
+});
+
+// Read CVData written by toCVDataJSON, e.g. a stored submission. Throws if
+// the data does not have the expected shape.
+export const fromCVDataJSON = (json: unknown): CVData => {
+  const data = cvDataSchema.parse(json);
+  return {
+    personalInfo: data.personalInfo as PersonalInfo,
+    entries: data.entries as TimelineEntry[],
+    acknowledgedGaps: data.acknowledgedGaps as TimelineGap[]
+  };
+};
+
+export const serializeCVData = (data: CVData): string => {
+  return JSON.stringify({
+    schemaVersion: CV_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...toCVDataJSON(data)
+  }, null, 2);
+};
+
+export const parseCVDataFile = (text: string): CVFileParseResult => {
+  let raw: RawCVFile;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { success: false, issues: [{ path: "File", message: "Not a valid JSON file" }] };
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { success: false, issues: [{ path: "File", message: "Expected a CV object" }] };
+  }
+
+  if (typeof raw.schemaVersion === "number" && raw.schemaVersion > CV_SCHEMA_VERSION) {
+    return {
+      success: false,
+      issues: [{
+        path: FIELD_LABELS.schemaVersion,
+        message: `This file was saved by a newer version of the CV builder (version ${raw.schemaVersion})`
+      }]
+    };
+  }
+
+  const result = cvFileSchema.safeParse(migrateCVFile(raw));
+  if (!result.success) {
+    return { success: false, issues: toCVFileIssues(result.error) };
+  }
+
+  return {
+    success: true,
+    data: {
+      personalInfo: result.data.personalInfo as PersonalInfo,
+      entries: result.data.entries as TimelineEntry[],
+      acknowledgedGaps: result.data.acknowledgedGaps as TimelineGap[]
+    }
+  };
+};
+
+// Validate CVData received from a client, e.g. by the submission endpoint.
+// Unlike a saved file there is no version to migrate, but the rules the
+// editor enforces must hold as well as the shape.
+export const parseCVSubmission = (raw: unknown, policy?: ValidationPolicy): CVFileParseResult => {
+  const result = cvDataSchema.safeParse(raw);
+  if (!result.success) {
+    return { success: false, issues: toCVFileIssues(result.error) };
+  }
+
+  const data: CVData = {
+    personalInfo: result.data.personalInfo as PersonalInfo,
+    entries: result.data.entries as TimelineEntry[],
+    acknowledgedGaps: result.data.acknowledgedGaps as TimelineGap[]
+  };
+
+  const issues = toCVFileIssuesFromValidation(validateCVData(data, policy));
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, data };
+};
+
+const policyFieldsSchema = z.object({
+  gapThresholdMonths: z.number().int().min(0),
+  schoolLeavingAge: z.number().int().min(0),
+  firstEntryMinAge: z.number().int().min(0),
+  firstEntryMaxAge: z.number().int().min(0),
+  minimumCandidateAge: z.number().int().min(0),
+  requiredHistoryYears: z.number().int().positive().nullable()
+});
+
+export const validationPolicySchema = policyFieldsSchema.refine(
+  policy => policy.firstEntryMinAge <= policy.firstEntryMaxAge,
+  { message: "Must not be below the minimum first entry age", path: ["firstEntryMaxAge"] }
+);
+
+export type PolicyParseResult =
+  | { success: true; policy: ValidationPolicy }
+  | { success: false; issues: CVFileIssue[] };
+
+// Read a policy sent by the server, or JSON overrides for some of the
+// fields of base, e.g. from the server's environment
+export const parseValidationPolicy = (raw: unknown, base?: ValidationPolicy): PolicyParseResult => {
+  const overrides = base ? policyFieldsSchema.partial().strict().safeParse(raw) : null;
+  if (overrides && !overrides.success) {
+    return { success: false, issues: toCVFileIssues(overrides.error) };
+  }
+
+  const result = validationPolicySchema.safeParse(overrides ? { ...base, ...overrides.data } : raw);
+  if (!result.success) {
+    return { success: false, issues: toCVFileIssues(result.error) };
+  }
+
+  return { success: true, policy: result.data as ValidationPolicy };
+};
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import type { TimelineEntry } from "./cvUtils";
+import { CVAction, CVState, cvReducer, initialCVState, selectCanRedo, selectCanUndo } from "./cvStore";
+
+const makeEntry = (id: string): TimelineEntry => ({
+  id,
+  type: "education",
+  title: `Entry ${id}`,
+  organization: "",
+  country: "United Kingdom",
+  startDate: { year: 2004, month: 9 },
+  endDate: { year: 2010, month: 7 },
+  description: "<p>Details</p>"
+});
+
+const run = (...actions: CVAction[]): CVState => actions.reduce(cvReducer, initialCVState);
+
+const entryIds = (state: CVState) => state.present.entries.map(entry => entry.id);
+
+describe("cvReducer history", () => {
+  it("undoes and redoes changes", () => {
+    const state = run(
+      { type: "entry/add", entry: makeEntry("a") },
+      { type: "entry/add", entry: makeEntry("b") },
+      { type: "history/undo" }
+    );
+
+    expect(entryIds(state)).toEqual(["a"]);
+    expect(selectCanRedo(state)).toBe(true);
+    expect(entryIds(cvReducer(state, { type: "history/redo" }))).toEqual(["a", "b"]);
+  });
+
+  it("drops the redo steps after a new change", () => {
+    const state = run(
+      { type: "entry/add", entry: makeEntry("a") },
+      { type: "history/undo" },
+      { type: "entry/add", entry: makeEntry("b") }
+    );
+
+    expect(entryIds(state)).toEqual(["b"]);
+    expect(selectCanRedo(state)).toBe(false);
+  });
+
+  it("ignores undo and redo with nothing to step to", () => {
+    expect(run({ type: "history/undo" })).toBe(initialCVState);
+    expect(run({ type: "history/redo" })).toBe(initialCVState);
+  });
+
+  it("merges typing into the same field into one step", () => {
+    const state = run(
+      { type: "personalInfo/update", info: { firstName: "A" } },
+      { type: "personalInfo/update", info: { firstName: "Ad" } },
+      { type: "personalInfo/update", info: { firstName: "Ada" } }
+    );
+
+    expect(state.past).toHaveLength(1);
+    expect(cvReducer(state, { type: "history/undo" }).present.personalInfo.firstName).toBe("");
+  });
+
+  it("keeps changes to different fields as separate steps", () => {
+    const state = run(
+      { type: "personalInfo/update", info: { firstName: "Ada" } },
+      { type: "personalInfo/update", info: { lastName: "Lovelace" } },
+      { type: "history/undo" }
+    );
+
+    expect(state.present.personalInfo).toMatchObject({ firstName: "Ada", lastName: "" });
+  });
+
+  it("starts a new step for the same field after an undo", () => {
+    const state = run(
+      { type: "personalInfo/update", info: { firstName: "Ada" } },
+      { type: "entry/add", entry: makeEntry("a") },
+      { type: "history/undo" },
+      { type: "personalInfo/update", info: { firstName: "Ada B" } }
+    );
+
+    expect(state.past).toHaveLength(2);
+  });
+
+  it("is not changed by starting or cancelling an edit", () => {
+    const state = run(
+      { type: "entry/add", entry: makeEntry("a") },
+      { type: "editing/start", id: "a" },
+      { type: "editing/cancel" }
+    );
+
+    expect(state.past).toHaveLength(1);
+  });
+
+  it("stops editing an entry that undo removes", () => {
+    const state = run(
+      { type: "entry/add", entry: makeEntry("a") },
+      { type: "editing/start", id: "a" },
+      { type: "history/undo" }
+    );
+
+    expect(state.editingEntryId).toBeNull();
+  });
+
+  it("starts a new history for a restored draft", () => {
+    const state = run(
+      { type: "entry/add", entry: makeEntry("a") },
+      { type: "draft/restore", data: { personalInfo: { firstName: "Ada", lastName: "" }, entries: [makeEntry("b")] }, editingEntryId: "missing" }
+    );
+
+    expect(entryIds(state)).toEqual(["b"]);
+    expect(selectCanUndo(state)).toBe(false);
+    expect(state.editingEntryId).toBeNull();
+  });
+});
+
+describe("entry/restore", () => {
+  it("puts a deleted entry back where it was", () => {
+    const state = run(
+      { type: "entries/add", entries: [makeEntry("a"), makeEntry("b"), makeEntry("c")] },
+      { type: "entry/remove", id: "b" },
+      { type: "entry/restore", entry: makeEntry("b"), index: 1 }
+    );
+
+    expect(entryIds(state)).toEqual(["a", "b", "c"]);
+  });
+
+  it("does nothing if the entry is already back", () => {
+    const removed = run(
+      { type: "entries/add", entries: [makeEntry("a"), makeEntry("b")] },
+      { type: "entry/remove", id: "b" },
+      { type: "history/undo" }
+    );
+
+    expect(cvReducer(removed, { type: "entry/restore", entry: makeEntry("b"), index: 1 })).toBe(removed);
+  });
+});
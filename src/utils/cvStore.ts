@@ -0,0 +1,204 @@
+import { CVData, PersonalInfo, TimelineEntry, TimelineGap, identifyGaps, parseDateString } from "./cvUtils";
+import { DEFAULT_VALIDATION_POLICY, ValidationPolicy, findUnexplainedGaps, hasErrors, validateEntry } from "./validation";
+import { compareYearMonths } from "./yearMonth";
+
+// State of the CV editor as a reducer, so every change goes through one place
+// and can be undone. The reducer only applies changes: useCVData checks them
+// against the validation rules before dispatching.
+
+// The part of the editor that undo and redo step through
+export interface CVDocumentState {
+  personalInfo: PersonalInfo;
+  entries: TimelineEntry[];
+  acknowledgedGaps: TimelineGap[];
+}
+
+export interface CVState {
+  past: CVDocumentState[];
+  present: CVDocumentState;
+  future: CVDocumentState[];
+  editingEntryId: string | null; // not part of the history
+  // Set by changes that merge into the one before, e.g. typing into the same
+  // personal details field, so each keystroke is not its own undo step
+  coalesceKey: string | null;
+}
+
+export type CVAction =
+  | { type: "personalInfo/update"; info: Partial<PersonalInfo> }
+  | { type: "entry/add"; entry: TimelineEntry }
+  | { type: "entries/add"; entries: TimelineEntry[] }
+  | { type: "entry/update"; entry: TimelineEntry }
+  | { type: "entry/remove"; id: string }
+  | { type: "entry/restore"; entry: TimelineEntry; index: number }
+  | { type: "gap/acknowledge"; gap: TimelineGap }
+  | { type: "cv/load"; data: CVData }
+  | { type: "draft/restore"; data: CVData; editingEntryId: string | null }
+  | { type: "editing/start"; id: string }
+  | { type: "editing/cancel" }
+  | { type: "history/undo" }
+  | { type: "history/redo" };
+
+// Oldest steps are dropped beyond this
+const HISTORY_LIMIT = 100;
+
+export const initialPersonalInfo: PersonalInfo = {
+  firstName: "",
+  lastName: "",
+  dateOfBirth: "",
+  address: "",
+  email: "",
+  phone: ""
+};
+
+const toDocumentState = (data: CVData): CVDocumentState => ({
+  personalInfo: { ...initialPersonalInfo, ...data.personalInfo },
+  entries: data.entries,
+  acknowledgedGaps: data.acknowledgedGaps || []
+});
+
+export const initialCVState: CVState = {
+  past: [],
+  present: { personalInfo: initialPersonalInfo, entries: [], acknowledgedGaps: [] },
+  future: [],
+  editingEntryId: null,
+  coalesceKey: null
+};
+
+// Record a change as a new undo step, or merge it into the last one when both
+// have the same coalesceKey. Any redo steps are lost.
+const commit = (state: CVState, present: CVDocumentState, coalesceKey: string | null = null): CVState => {
+  const isCoalesced = coalesceKey !== null && coalesceKey === state.coalesceKey;
+  return {
+    ...state,
+    past: isCoalesced ? state.past : [...state.past, state.present].slice(-HISTORY_LIMIT),
+    present,
+    future: [],
+    coalesceKey
+  };
+};
+
+// Stop editing an entry that a change has removed
+const withValidEditing = (state: CVState): CVState =>
+  state.editingEntryId && !state.present.entries.some(entry => entry.id === state.editingEntryId)
+    ? { ...state, editingEntryId: null }
+    : state;
+
+export const cvReducer = (state: CVState, action: CVAction): CVState => {
+  const { present } = state;
+
+  switch (action.type) {
+    case "personalInfo/update":
+      return commit(
+        state,
+        { ...present, personalInfo: { ...present.personalInfo, ...action.info } },
+        `personalInfo:${Object.keys(action.info).sort().join(",")}`
+      );
+
+    case "entry/add":
+      return commit(state, { ...present, entries: [...present.entries, action.entry] });
+
+    case "entries/add":
+      return commit(state, { ...present, entries: [...present.entries, ...action.entries] });
+
+    case "entry/update":
+      return commit(state, {
+        ...present,
+        entries: present.entries.map(entry => entry.id === action.entry.id ? action.entry : entry)
+      });
+
+    case "entry/remove":
+      return withValidEditing(commit(state, {
+        ...present,
+        entries: present.entries.filter(entry => entry.id !== action.id)
+      }));
+
+    // Put back a deleted entry where it was, e.g. from the "Entry deleted"
+    // toast, once useCVData has checked it against the CV as it is now.
+    // Nothing happens if it is already back, e.g. after an undo.
+    case "entry/restore":
+      if (present.entries.some(entry => entry.id === action.entry.id)) return state;
+      return commit(state, {
+        ...present,
+        entries: [
+          ...present.entries.slice(0, action.index),
+          action.entry,
+          ...present.entries.slice(action.index)
+        ]
+      });
+
+    case "gap/acknowledge":
+      return commit(state, { ...present, acknowledgedGaps: [...present.acknowledgedGaps, action.gap] });
+
+    case "cv/load":
+      return { ...commit(state, toDocumentState(action.data)), editingEntryId: null };
+
+    // A restored draft starts a new history
+    case "draft/restore":
+      return withValidEditing({
+        ...initialCVState,
+        present: toDocumentState(action.data),
+        editingEntryId: action.editingEntryId
+      });
+
+    case "editing/start":
+      return { ...state, editingEntryId: action.id };
+
+    case "editing/cancel":
+      return { ...state, editingEntryId: null };
+
+    case "history/undo":
+      if (state.past.length === 0) return state;
+      return withValidEditing({
+        ...state,
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [present, ...state.future],
+        coalesceKey: null
+      });
+
+    case "history/redo":
+      if (state.future.length === 0) return state;
+      return withValidEditing({
+        ...state,
+        past: [...state.past, present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        coalesceKey: null
+      });
+
+    default:
+      return state;
+  }
+};
+
+// Selectors
+
+export const selectCanUndo = (state: CVState): boolean => state.past.length > 0;
+
+export const selectCanRedo = (state: CVState): boolean => state.future.length > 0;
+
+// Entries in timeline order, without reordering the stored ones
+export const selectSortedEntries = (state: CVState): TimelineEntry[] =>
+  [...state.present.entries].sort((a, b) => compareYearMonths(a.startDate, b.startDate));
+
+export const selectGaps = (state: CVState): TimelineGap[] => identifyGaps(state.present.entries);
+
+export const selectUnexplainedGaps = (state: CVState, policy: ValidationPolicy = DEFAULT_VALIDATION_POLICY): TimelineGap[] =>
+  findUnexplainedGaps(state.present.entries, policy, state.present.acknowledgedGaps);
+
+// IDs of entries still missing required fields, e.g. generated school stages
+export const selectIncompleteEntryIds = (state: CVState): string[] =>
+  state.present.entries.filter(entry => hasErrors(validateEntry(entry))).map(entry => entry.id);
+
+// The CV as it is previewed, saved and submitted
+export const selectCVData = (state: CVState): CVData => {
+  const { personalInfo, acknowledgedGaps } = state.present;
+  return {
+    personalInfo: {
+      ...personalInfo,
+      dateOfBirth: parseDateString(personalInfo.dateOfBirth)
+    },
+    entries: selectSortedEntries(state),
+    acknowledgedGaps
+  };
+};
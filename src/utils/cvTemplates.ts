@@ -0,0 +1,108 @@
+// Registry of CV layouts. A template controls page size, fonts, section order
+// and spacing, and is applied by the DOCX, PDF and preview renderers alike.
+
+export type CVTemplateLayout = "standard" | "two-column" | "table";
+export type CVTemplateSectionKind = "details" | "history";
+
+export interface CVTemplate {
+  id: string;
+  name: string;
+  description: string;
+  layout: CVTemplateLayout;
+  title: string;
+  page: {
+    size: "a4" | "letter";
+    margins: { top: number; right: number; bottom: number; left: number }; // mm
+  };
+  fonts: {
+    docx: string;
+    pdf: "helvetica" | "times" | "courier";
+  };
+  fontSizes: {
+    title: number; // pt
+    name: number;
+    heading: number;
+    body: number;
+  };
+  sectionOrder: CVTemplateSectionKind[];
+  spacing: {
+    afterParagraph: number; // mm
+    afterEntry: number; // mm
+  };
+}
+
+// Page sizes in mm
+export const PAGE_SIZES: Record<CVTemplate["page"]["size"], { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 }
+};
+
+export const CV_TEMPLATES: CVTemplate[] = [
+  {
+    id: "agency-standard",
+    name: "Agency standard",
+    description: "Single column with a centred header and generous spacing",
+    layout: "standard",
+    title: "CURRICULUM VITAE",
+    page: {
+      size: "a4",
+      margins: { top: 25.4, right: 25.4, bottom: 25.4, left: 25.4 }
+    },
+    fonts: { docx: "Calibri", pdf: "helvetica" },
+    fontSizes: { title: 16, name: 14, heading: 13, body: 12 },
+    sectionOrder: ["details", "history"],
+    spacing: { afterParagraph: 2, afterEntry: 12 }
+  },
+  {
+    id: "compact",
+    name: "Compact",
+    description: "Smaller type and tighter spacing to fit long histories on fewer pages",
+    layout: "standard",
+    title: "CURRICULUM VITAE",
+    page: {
+      size: "a4",
+      margins: { top: 15, right: 15, bottom: 15, left: 15 }
+    },
+    fonts: { docx: "Arial", pdf: "helvetica" },
+    fontSizes: { title: 13, name: 12, heading: 11, body: 10 },
+    sectionOrder: ["details", "history"],
+    spacing: { afterParagraph: 1, afterEntry: 5 }
+  },
+  {
+    id: "two-column",
+    name: "Two-column",
+    description: "Personal details in a side column next to the history",
+    layout: "two-column",
+    title: "CURRICULUM VITAE",
+    page: {
+      size: "a4",
+      margins: { top: 18, right: 18, bottom: 18, left: 18 }
+    },
+    fonts: { docx: "Calibri", pdf: "helvetica" },
+    fontSizes: { title: 16, name: 14, heading: 12, body: 11 },
+    sectionOrder: ["details", "history"],
+    spacing: { afterParagraph: 1.5, afterEntry: 8 }
+  },
+  {
+    id: "table-history",
+    name: "Table history",
+    description: "History as a table with dates in the first column",
+    layout: "table",
+    title: "CURRICULUM VITAE",
+    page: {
+      size: "a4",
+      margins: { top: 20, right: 20, bottom: 20, left: 20 }
+    },
+    fonts: { docx: "Georgia", pdf: "times" },
+    fontSizes: { title: 16, name: 14, heading: 13, body: 11 },
+    sectionOrder: ["details", "history"],
+    spacing: { afterParagraph: 1.5, afterEntry: 4 }
+  }
+];
+
+export const DEFAULT_TEMPLATE_ID = "agency-standard";
+
+export const getCVTemplate = (id?: string): CVTemplate => {
+  return CV_TEMPLATES.find(template => template.id === id) ||
+    CV_TEMPLATES.find(template => template.id === DEFAULT_TEMPLATE_ID);
+};
@@ -1,9 +1,18 @@
-import { format, differenceInYears, isAfter, isBefore, addYears, parseISO } from "date-fns";
-import { saveAs } from "file-saver";
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, BorderStyle, Table, TableRow, TableCell, WidthType, Header, Footer, ImageRun, convertInchesToTwip, convertMillimetersToTwip, Media, UnderlineType, Tab, ExternalHyperlink } from "docx";
-import { sendCV } from "./api";
-import jsPDF from 'jspdf';
-import 'jspdf-autotable';
+import { differenceInYears, addYears, isValid, parseISO } from "date-fns";
+import type { ValidationPolicy } from "./validation";
+import {
+  PartialDate,
+  TimelineDate,
+  YearMonth,
+  addMonths,
+  currentYearMonth,
+  earliestMonth,
+  fromMonthIndex,
+  getMonthRange,
+  latestMonth,
+  parseYearMonth,
+  toMonthIndex
+} from "./yearMonth";
 
 export type EntryType = "education" | "work" | "gap";
 
@@ -13,9 +22,11 @@ export interface TimelineEntry {
   title: string;
   organization: string;
   country: string;
-  startDate: string; // ISO format
-  endDate: string; // ISO format or "present"
+  startDate: PartialDate;
+  endDate: TimelineDate;
   description: string;
+  concurrent?: boolean; // held alongside another entry, e.g. part-time study while working
+  reasonForLeaving?: string; // work entries that have ended
 }
 
 export interface PersonalInfo {
@@ -28,9 +39,24 @@ export interface PersonalInfo {
   phone?: string;
 }
 
+// An entry being filled in on a form, before its dates have been picked
+export type TimelineEntryInput = Omit<TimelineEntry, "id" | "startDate" | "endDate"> & {
+  startDate: PartialDate | null;
+  endDate: TimelineDate | null;
+};
+
+// A run of whole months that no entry covers, from the first to the last
+// missing month
+export interface TimelineGap {
+  start: YearMonth;
+  end: YearMonth;
+  months: number;
+}
+
 export interface CVData {
   personalInfo: PersonalInfo;
   entries: TimelineEntry[];
+  acknowledgedGaps?: TimelineGap[]; // gaps the candidate chose not to explain with an entry
 }
 
 // Function to parse a date in DD/MM/YYYY format to an ISO string
@@ -75,981 +101,90 @@ export const getStartYearFromDOB = (dateOfBirth: string): number => {
   }
 };
 
-export const getDefaultStartMonth = (dateOfBirth: string): string => {
-  if (!dateOfBirth) return format(new Date(), "yyyy-MM");
-  
+// Age in whole years today, or null without a valid date of birth
+export const getAgeInYears = (dateOfBirth: string | undefined): number | null => {
   const isoDob = parseDateString(dateOfBirth);
-  if (!isoDob) return format(new Date(), "yyyy-MM");
-  
-  try {
-    const dob = parseISO(isoDob);
-    const ageElevenDate = addYears(dob, 11);
-    return format(ageElevenDate, "yyyy-MM");
-  } catch (error) {
-    console.error("Error calculating default start month:", error);
-    return format(new Date(), "yyyy-MM");
-  }
-};
+  if (!isoDob) return null;
 
-export const isDateWithinElevenYearWindow = (dob: string, startDate: string): boolean => {
-  if (!dob || !startDate) return false;
-  
-  const isoDob = parseDateString(dob);
-  if (!isoDob) return false;
-  
-  try {
-    const dobDate = parseISO(isoDob);
-    const startDateParsed = parseISO(startDate);
-    
-    // Calculate the dates exactly 1 year and 11 years after DOB
-    const ageOneYear = addYears(dobDate, 1);
-    const ageElevenYears = addYears(dobDate, 11);
-    
-    // Use inclusive bounds (>= and <=) to allow exact match on the boundaries
-    return (startDateParsed >= ageOneYear && 
-            startDateParsed <= ageElevenYears);
-  } catch (error) {
-    console.error("Error validating date within window:", error);
-    return false;
-  }
+  const dob = parseISO(isoDob);
+  return isValid(dob) ? differenceInYears(new Date(), dob) : null;
 };
 
-export const isFirstChronologicalEntry = (entries: TimelineEntry[], entryId?: string): boolean => {
-  if (entries.length === 0) return true;
-  
-  const filteredEntries = entryId 
-    ? entries.filter(entry => entry.id !== entryId) 
-    : entries;
-  
-  if (filteredEntries.length === 0) return true;
-  
-  return false;
+// The month the candidate reached the oldest age the first entry may start
+// at, where it usually starts
+export const getDefaultStartMonth = (dateOfBirth: string, policy: ValidationPolicy): YearMonth => {
+  const birthMonth = parseYearMonth(parseDateString(dateOfBirth));
+  return birthMonth ? addMonths(birthMonth, policy.firstEntryMaxAge * 12) : currentYearMonth();
 };
 
-export const isEntryInChronologicalOrder = (
-  entries: TimelineEntry[],
-  newEntry: TimelineEntry,
-  editingEntryId?: string
-): boolean => {
-  // If there are no entries or just adding the first entry, allow it
-  if (entries.length === 0) return true;
-
-  const sortedEntries = [...entries];
-  
-  // If editing an existing entry, remove it from the comparison list
-  if (editingEntryId) {
-    const editingIndex = sortedEntries.findIndex(entry => entry.id === editingEntryId);
-    if (editingIndex !== -1) {
-      sortedEntries.splice(editingIndex, 1);
-    }
-  }
-  
-  // Add the new entry to check
-  sortedEntries.push(newEntry);
-  
-  // Sort entries by start date
-  sortedEntries.sort((a, b) => 
-    new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
-  );
-
-  // Check for overlaps or gaps between entries
-  for (let i = 1; i < sortedEntries.length; i++) {
-    const previousEntry = sortedEntries[i - 1];
-    const currentEntry = sortedEntries[i];
-    
-    const previousStartDate = new Date(previousEntry.startDate);
-    const previousEndDate = previousEntry.endDate === "present" 
-      ? new Date() 
-      : new Date(previousEntry.endDate);
-    
-    const currentStartDate = new Date(currentEntry.startDate);
-    
-    // Check if the current entry's start date is within the previous entry's date range
-    // or if it's after the previous entry's end date
-    if (currentStartDate < previousStartDate || currentStartDate > previousEndDate) {
-      return false;
-    }
-  }
-  
-  return true;
+// Entries cover whole months, so the window is checked in months: the first
+// entry may start from the month of the birthday at firstEntryMinAge to that
+// at firstEntryMaxAge. An imprecise start passes if any month it could mean
+// is in the window.
+export const isWithinFirstEntryWindow = (dob: string, startDate: PartialDate, policy: ValidationPolicy): boolean => {
+  const birthMonth = parseYearMonth(parseDateString(dob));
+  if (!birthMonth || !startDate) return false;
+
+  const { earliest, latest } = getMonthRange(startDate);
+  const birth = toMonthIndex(birthMonth);
+  return latest >= birth + policy.firstEntryMinAge * 12 && earliest <= birth + policy.firstEntryMaxAge * 12;
 };
 
-export const identifyGaps = (entries: TimelineEntry[]): { start: string; end: string }[] => {
+// Imprecise dates are read as generously as possible, so a gap is only
+// reported where no reading of the dates would cover it
+export const identifyGaps = (entries: TimelineEntry[]): TimelineGap[] => {
   if (entries.length < 2) return [];
   
-  const sortedEntries = [...entries].sort((a, b) => 
-    new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
-  );
+  const sortedEntries = [...entries].sort((a, b) => earliestMonth(a.startDate) - earliestMonth(b.startDate));
   
-  const gaps: { start: string; end: string }[] = [];
+  const gaps: TimelineGap[] = [];
+  // Last month covered so far. Concurrent entries overlap the others, so a
+  // gap is only a period that no entry on any track covers.
+  let coveredUntil = latestMonth(sortedEntries[0].endDate);
   
   for (let i = 1; i < sortedEntries.length; i++) {
-    const prevEndDate = sortedEntries[i-1].endDate === "present" 
-      ? new Date().toISOString().split('T')[0]
-      : sortedEntries[i-1].endDate;
-    
-    const currentStartDate = sortedEntries[i].startDate;
+    const currentStart = earliestMonth(sortedEntries[i].startDate);
     
-    const prevEnd = new Date(prevEndDate);
-    const currStart = new Date(currentStartDate);
-    
-    // Check if the current entry starts after the previous entry ends
-    // Only then we have a gap
-    if (currStart > prevEnd) {
+    // An entry starting the month after the last one ended leaves no gap
+    if (currentStart > coveredUntil + 1) {
       gaps.push({
-        start: prevEndDate,
-        end: currentStartDate
+        start: fromMonthIndex(coveredUntil + 1),
+        end: fromMonthIndex(currentStart - 1),
+        months: currentStart - coveredUntil - 1
       });
     }
+    
+    coveredUntil = Math.max(coveredUntil, latestMonth(sortedEntries[i].endDate));
   }
   
   return gaps;
 };
 
-export const formatDateForDisplay = (dateString: string, isFullDate: boolean = false): string => {
-  if (dateString === "present") return "Present";
-  try {
-    const date = parseISO(dateString);
-    return isFullDate ? format(date, "dd MMMM yyyy") : format(date, "MMMM yyyy");
-  } catch (error) {
-    console.error("Invalid date format:", dateString);
-    return dateString;
-  }
-};
-
-// Helper function to convert HTML to document elements
-const convertHtmlToDocumentElements = (html: string): Paragraph[] => {
-  if (!html) return [new Paragraph({
-    spacing: { before: 0, after: 120 },
-    indent: { left: 720 },
-    children: [new TextRun({ text: '', size: 24 })]
-  })];
-  
-  // Clean the HTML to handle specific entity issues
-  const cleanHtml = html
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'");
-  
-  // Simple parsing for paragraphs and list items
-  const paragraphs: Paragraph[] = [];
-  
-  // Split content by paragraph tags
-  const parts = cleanHtml.split(/<\/?p>/).filter(p => p.trim());
-  
-  for (const part of parts) {
-    // Check if this is a list
-    if (part.includes('<ul>') || part.includes('<ol>')) {
-      // Extract list items
-      const listItems = part.match(/<li>(.*?)<\/li>/g) || [];
-      
-      for (const li of listItems) {
-        // Get content inside li tags
-        const content = li.replace(/<li>|<\/li>/g, '').trim();
-        
-        // Process formatting (bold, italic)
-        const segments: TextRun[] = [];
-        let remaining = content;
-        
-        // Handle bold formatting
-        while (remaining.includes('<strong>') || remaining.includes('<b>')) {
-          const strongStart = remaining.indexOf('<strong>') !== -1 ? remaining.indexOf('<strong>') : Infinity;
-          const bStart = remaining.indexOf('<b>') !== -1 ? remaining.indexOf('<b>') : Infinity;
-          const boldStart = Math.min(strongStart, bStart);
-          
-          if (boldStart !== Infinity) {
-            // Add text before bold
-            if (boldStart > 0) {
-              segments.push(new TextRun({ text: remaining.substring(0, boldStart), size: 24 }));
-            }
-            
-            // Get end tag position
-            const boldTag = remaining.substring(boldStart, boldStart + 3) === '<b>' ? '</b>' : '</strong>';
-            const boldEnd = remaining.indexOf(boldTag, boldStart);
-            if (boldEnd === -1) break;
-            
-            // Extract bold text without tags
-            const boldText = remaining.substring(
-              boldStart + (boldTag === '</b>' ? 3 : 8),
-              boldEnd
-            );
-            
-            segments.push(new TextRun({ text: boldText, bold: true, size: 24 }));
-            
-            // Continue with rest of text
-            remaining = remaining.substring(boldEnd + boldTag.length);
-          } else {
-            break;
-          }
-        }
-        
-        // Handle italic formatting
-        while (remaining.includes('<em>') || remaining.includes('<i>')) {
-          const emStart = remaining.indexOf('<em>') !== -1 ? remaining.indexOf('<em>') : Infinity;
-          const iStart = remaining.indexOf('<i>') !== -1 ? remaining.indexOf('<i>') : Infinity;
-          const italicStart = Math.min(emStart, iStart);
-          
-          if (italicStart !== Infinity) {
-            // Add text before italic
-            if (italicStart > 0) {
-              segments.push(new TextRun({ text: remaining.substring(0, italicStart), size: 24 }));
-            }
-            
-            // Get end tag position
-            const italicTag = remaining.substring(italicStart, italicStart + 3) === '<i>' ? '</i>' : '</em>';
-            const italicEnd = remaining.indexOf(italicTag, italicStart);
-            if (italicEnd === -1) break;
-            
-            // Extract italic text without tags
-            const italicText = remaining.substring(
-              italicStart + (italicTag === '</i>' ? 3 : 4),
-              italicEnd
-            );
-            
-            segments.push(new TextRun({ text: italicText, italics: true, size: 24 }));
-            
-            // Continue with rest of text
-            remaining = remaining.substring(italicEnd + italicTag.length);
-          } else {
-            break;
-          }
-        }
-        
-        // Add any remaining text
-        if (remaining) {
-          // Remove any other HTML tags
-          const plainText = remaining.replace(/<[^>]*>/g, '');
-          if (plainText) {
-            segments.push(new TextRun({ text: plainText, size: 24 }));
-          }
-        }
-        
-        // Add bullet point paragraph
-        paragraphs.push(new Paragraph({
-          spacing: { before: 0, after: 120 },
-          indent: { left: 720 },
-          bullet: { level: 0 },
-          children: segments,
-        }));
-      }
-    } else {
-      // Handle regular paragraph with formatting
-      const segments: TextRun[] = [];
-      let remaining = part;
-      
-      // Handle bold formatting
-      while (remaining.includes('<strong>') || remaining.includes('<b>')) {
-        const strongStart = remaining.indexOf('<strong>') !== -1 ? remaining.indexOf('<strong>') : Infinity;
-        const bStart = remaining.indexOf('<b>') !== -1 ? remaining.indexOf('<b>') : Infinity;
-        const boldStart = Math.min(strongStart, bStart);
-        
-        if (boldStart !== Infinity) {
-          // Add text before bold
-          if (boldStart > 0) {
-            segments.push(new TextRun({ text: remaining.substring(0, boldStart), size: 24 }));
-          }
-          
-          // Get end tag position
-          const boldTag = remaining.substring(boldStart, boldStart + 3) === '<b>' ? '</b>' : '</strong>';
-          const boldEnd = remaining.indexOf(boldTag, boldStart);
-          if (boldEnd === -1) break;
-          
-          // Extract bold text without tags
-          const boldText = remaining.substring(
-            boldStart + (boldTag === '</b>' ? 3 : 8),
-            boldEnd
-          );
-          
-          segments.push(new TextRun({ text: boldText, bold: true, size: 24 }));
-          
-          // Continue with rest of text
-          remaining = remaining.substring(boldEnd + boldTag.length);
-        } else {
-          break;
-        }
-      }
-      
-      // Handle italic formatting
-      while (remaining.includes('<em>') || remaining.includes('<i>')) {
-        const emStart = remaining.indexOf('<em>') !== -1 ? remaining.indexOf('<em>') : Infinity;
-        const iStart = remaining.indexOf('<i>') !== -1 ? remaining.indexOf('<i>') : Infinity;
-        const italicStart = Math.min(emStart, iStart);
-        
-        if (italicStart !== Infinity) {
-          // Add text before italic
-          if (italicStart > 0) {
-            segments.push(new TextRun({ text: remaining.substring(0, italicStart), size: 24 }));
-          }
-          
-          // Get end tag position
-          const italicTag = remaining.substring(italicStart, italicStart + 3) === '<i>' ? '</i>' : '</em>';
-          const italicEnd = remaining.indexOf(italicTag, italicStart);
-          if (italicEnd === -1) break;
-          
-          // Extract italic text without tags
-          const italicText = remaining.substring(
-            italicStart + (italicTag === '</i>' ? 3 : 4),
-            italicEnd
-          );
-          
-          segments.push(new TextRun({ text: italicText, italics: true, size: 24 }));
-          
-          // Continue with rest of text
-          remaining = remaining.substring(italicEnd + italicTag.length);
-        } else {
-          break;
-        }
-      }
-      
-      // Add any remaining text
-      if (remaining) {
-        // Remove any other HTML tags
-        const plainText = remaining.replace(/<[^>]*>/g, '');
-        if (plainText) {
-          segments.push(new TextRun({ text: plainText, size: 24 }));
-        }
-      }
-      
-      // Add paragraph
-      paragraphs.push(new Paragraph({
-        spacing: { before: 0, after: 120 },
-        indent: { left: 720 },
-        children: segments,
-      }));
-    }
-  }
-  
-  // If no paragraphs were created, return a default empty paragraph
-  if (paragraphs.length === 0) {
-    return [new Paragraph({
-      spacing: { before: 0, after: 120 },
-      indent: { left: 720 },
-      children: [new TextRun({ text: html.replace(/<[^>]*>/g, ''), size: 24 })]
-    })];
-  }
-  
-  return paragraphs;
-};
-
-export const generateCVDocument = async (data: CVData, shouldDownload: boolean = false): Promise<Blob> => {
-  const { personalInfo, entries } = data;
-  
-  // Create a more standard/compatible document structure
-  const doc = new Document({
-    creator: "CV Chronologizer",
-    title: `${personalInfo.firstName} ${personalInfo.lastName} CV`,
-    description: "CV generated by CV Chronologizer",
-    styles: {
-      paragraphStyles: [
-        {
-          id: "Heading1",
-          name: "Heading 1",
-          basedOn: "Normal",
-          next: "Normal",
-          run: {
-            size: 28,
-            bold: true,
-            font: "Calibri",
-          },
-          paragraph: {
-            spacing: {
-              after: 240,
-              before: 240,
-            },
-            alignment: AlignmentType.CENTER,
-          },
-        },
-        {
-          id: "Normal",
-          name: "Normal",
-          run: {
-            size: 24,
-            font: "Calibri",
-          },
-        },
-      ],
-    },
-    sections: [
-      {
-        properties: {
-          page: {
-            margin: {
-              top: 1440, // 1 inch
-              right: 1440,
-              bottom: 1440,
-              left: 1440
-            },
-            size: {
-              width: 12240, // 8.5 inches
-              height: 15840, // 11 inches
-            },
-          },
-        },
-        children: [
-          new Paragraph({
-            alignment: AlignmentType.CENTER,
-            spacing: {
-              before: 240,
-              after: 240,
-            },
-            children: [
-              new TextRun({
-                text: "CURRICULUM VITAE",
-                bold: true,
-                size: 28,
-              }),
-            ],
-          }),
-          
-          new Paragraph({
-            alignment: AlignmentType.CENTER,
-            spacing: {
-              before: 240,
-              after: 240,
-            },
-            children: [
-              new TextRun({
-                text: `${personalInfo.firstName} ${personalInfo.lastName}`,
-                bold: true,
-                size: 28,
-              }),
-            ],
-          }),
-          
-          // Only add DOB if it exists
-          ...(personalInfo.dateOfBirth ? [
-          new Paragraph({
-            alignment: AlignmentType.CENTER,
-              spacing: { before: 120, after: 120 },
-            children: [
-              new TextRun({
-                text: `Date of Birth: ${format(parseISO(personalInfo.dateOfBirth), "dd/MM/yyyy")}`,
-                size: 24,
-              }),
-            ],
-          }),
-          ] : []),
-          
-          // Only add address if it exists
-          ...(personalInfo.address ? [
-          new Paragraph({
-            alignment: AlignmentType.CENTER,
-              spacing: { after: 120 },
-            children: [
-              new TextRun({
-                text: `${personalInfo.address}${personalInfo.postcode ? `, ${personalInfo.postcode}` : ''}`,
-                size: 24,
-              }),
-            ],
-          }),
-          ] : []),
-          
-          // Only add contact info if either email or phone exists
-          ...((personalInfo.email || personalInfo.phone) ? [
-          new Paragraph({
-            alignment: AlignmentType.CENTER,
-              spacing: { after: 240 },
-            children: [
-              new TextRun({
-                  text: [
-                    personalInfo.email,
-                    personalInfo.phone
-                  ].filter(Boolean).join(" | "),
-                size: 24,
-              }),
-            ],
-          }),
-          ] : []),
-          
-          new Paragraph({
-            alignment: AlignmentType.LEFT,
-            spacing: { before: 240, after: 240 },
-            children: [
-              new TextRun({
-                text: "Chronological History",
-                bold: true,
-                size: 26,
-              }),
-            ],
-          }),
-          
-          // Add timeline entries
-          ...entries
-            .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())
-            .flatMap(entry => {
-              const startDate = formatDateForDisplay(entry.startDate);
-              const endDate = formatDateForDisplay(entry.endDate);
-              const entryType = entry.type === "education" 
-                ? "Education" 
-                : entry.type === "work" 
-                  ? "Work Experience" 
-                  : "Gap/Break";
-              
-              return [
-                new Paragraph({
-                  spacing: { before: 240, after: 240 },
-                  children: [
-                    new TextRun({
-                      text: `${entryType}: `,
-                      bold: true,
-                      size: 24,
-                    }),
-                    new TextRun({
-                      text: `${entry.organization}${entry.country ? `, ${entry.country}` : ''}`,
-                      bold: true,
-                      size: 24,
-                    }),
-                  ],
-                }),
-                
-                new Paragraph({
-                  spacing: { before: 0, after: 240 },
-                  children: [
-                    new TextRun({
-                      text: `${startDate} - ${endDate}`,
-                      italics: true,
-                      size: 24,
-                    }),
-                  ],
-                }),
-                
-                new Paragraph({
-                  spacing: { before: 0, after: 240 },
-                  children: [
-                    new TextRun({
-                      text: entry.title,
-                      italics: true,
-                      size: 24,
-                    }),
-                  ],
-                }),
-                
-                // Only add description if it exists
-                ...(entry.description ? [
-                  ...convertHtmlToDocumentElements(entry.description),
-                  new Paragraph({ spacing: { after: 240 }, children: [] })
-                ] : []),
-                // Add a larger empty paragraph for extra bottom margin after each entry
-                new Paragraph({ spacing: { after: 1440 }, children: [] }),
-              ];
-            }),
-        ],
-      },
-    ],
-  });
-
-  try {
-    console.log('Generating CV document...');
-    // Generate the document as a blob
-    const blob = await Packer.toBlob(doc);
-    
-    // Only save locally if download is requested
-    if (shouldDownload) {
-      const fileName = `${personalInfo.firstName}_${personalInfo.lastName}_CV.docx`;
-      saveAs(blob, fileName);
-    }
-    
-    return blob;
-  } catch (error) {
-    console.error('Error generating CV:', error);
-    throw error;
-  }
-};
-
-// Function for just downloading the CV locally
-export const downloadCVDocument = async (data: CVData): Promise<void> => {
-  try {
-    await generateCVDocument(data, true);
-    console.log('CV downloaded successfully');
-  } catch (error) {
-    console.error('Error downloading CV:', error);
-    throw error;
-  }
-};
-
-// Function to generate a PDF CV
-export const generatePDFDocument = async (data: CVData): Promise<Blob> => {
-  const { personalInfo, entries } = data;
-  
-  // Create a new PDF document (A4 size in portrait orientation)
-  const pdf = new jsPDF({
-    orientation: 'portrait',
-    unit: 'mm',
-    format: 'a4'
-  });
-  
-  // Set document properties
-  pdf.setProperties({
-    title: `${personalInfo.firstName} ${personalInfo.lastName} CV`,
-    author: 'CV Chronologizer',
-    creator: 'CV Chronologizer',
-    subject: 'Curriculum Vitae'
-  });
-  
-  // Add document title
-  pdf.setFontSize(20);
-  pdf.setFont('helvetica', 'bold');
-  pdf.text('CURRICULUM VITAE', pdf.internal.pageSize.width / 2, 20, { align: 'center' });
-  
-  // Add personal information
-  pdf.setFontSize(18);
-  pdf.text(`${personalInfo.firstName} ${personalInfo.lastName}`, pdf.internal.pageSize.width / 2, 30, { align: 'center' });
-  
-  // Personal details in normal font
-  pdf.setFontSize(12);
-  pdf.setFont('helvetica', 'normal');
-  
-  let yPosition = 40;
-  const lineHeight = 8;
-  
-  // Add DOB if it exists
-  if (personalInfo.dateOfBirth) {
-    try {
-      const dobDate = parseISO(parseDateString(personalInfo.dateOfBirth));
-      pdf.text(`Date of Birth: ${format(dobDate, "dd/MM/yyyy")}`, pdf.internal.pageSize.width / 2, yPosition, { align: 'center' });
-      yPosition += lineHeight;
-    } catch (error) {
-      console.error('Error formatting DOB:', error);
-    }
-  }
-  
-  // Add address if it exists
-  if (personalInfo.address) {
-    pdf.text(personalInfo.address, pdf.internal.pageSize.width / 2, yPosition, { align: 'center' });
-    yPosition += lineHeight;
-  }
-  
-  // Add contact info if it exists
-  if (personalInfo.email || personalInfo.phone) {
-    const contactInfo = [
-      personalInfo.email,
-      personalInfo.phone
-    ].filter(Boolean).join(' | ');
-    
-    pdf.text(contactInfo, pdf.internal.pageSize.width / 2, yPosition, { align: 'center' });
-    yPosition += lineHeight * 2;
-  }
-  
-  // Add "Chronological History" heading
-  pdf.setFontSize(16);
-  pdf.setFont('helvetica', 'bold');
-  pdf.text('Chronological History', 20, yPosition);
-  yPosition += lineHeight * 1.5;
-  
-  // Sort entries chronologically
-  const sortedEntries = [...entries].sort((a, b) => 
-    new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
+// Pair each concurrent entry with the main entry it overlaps so the two can be
+// shown side by side. Concurrent entries that overlap no main entry stay on
+// the main track.
+export const groupConcurrentEntries = <T extends Pick<TimelineEntry, "startDate" | "endDate" | "concurrent">>(
+  entries: T[]
+): { entry: T; concurrent: T[] }[] => {
+  // Main entries first when they start together, so they can take the concurrent ones
+  const sortedEntries = [...entries].sort((a, b) =>
+    earliestMonth(a.startDate) - earliestMonth(b.startDate) ||
+    Number(!!a.concurrent) - Number(!!b.concurrent)
   );
-  
-  // Add each entry
-  pdf.setFontSize(12);
-  
+  const groups: { entry: T; concurrent: T[] }[] = [];
+
   for (const entry of sortedEntries) {
-    const startDate = formatDateForDisplay(entry.startDate);
-    const endDate = formatDateForDisplay(entry.endDate);
-    const dateRange = `${startDate} - ${endDate}`;
-    
-    const entryType = entry.type === "education" 
-      ? "Education" 
-      : entry.type === "work" 
-        ? "Work Experience" 
-        : "Gap/Break";
-    
-    // Entry type and organization
-    pdf.setFont('helvetica', 'bold');
-    pdf.text(`${entryType}: ${entry.organization}${entry.country ? `, ${entry.country}` : ''}`, 20, yPosition);
-    yPosition += lineHeight;
-    
-    // Date range
-    pdf.setFont('helvetica', 'italic');
-    pdf.text(dateRange, 20, yPosition);
-    yPosition += lineHeight;
-    
-    // Title/position
-    pdf.text(entry.title, 20, yPosition);
-    yPosition += lineHeight;
-    
-    // Description (with indentation)
-    if (entry.description) {
-      pdf.setFont('helvetica', 'normal');
-      
-      // Convert HTML to plain text
-      const plainDescription = entry.description
-        .replace(/<br\s*\/?>/gi, '\n')
-        .replace(/<\/p>/gi, '\n')
-        .replace(/<\/ul>/gi, '')
-        .replace(/<\/ol>/gi, '')
-        .replace(/<ul[^>]*>/gi, '')
-        .replace(/<ol[^>]*>/gi, '')
-        .replace(/<li[^>]*>/gi, '• ')
-        .replace(/<\/li>/gi, '\n')
-        .replace(/<[^>]*>/g, '')
-        .replace(/&lt;/g, '<')
-        .replace(/&gt;/g, '>')
-        .replace(/&amp;/g, '&')
-        .replace(/&quot;/g, '"')
-        .replace(/&#39;/g, "'")
-        .replace(/&nbsp;/g, ' ')
-        .replace(/<listitem>/g, '• ')
-        .replace(/<\/listitem>/g, '\n')
-        .replace(/<list>/g, '')
-        .replace(/<\/list>/g, '');
-      
-      // Split description into multiple lines if it's too long
-      const textLines = pdf.splitTextToSize(plainDescription, pdf.internal.pageSize.width - 50);
-      
-      // Check if we need a new page for the description
-      if (yPosition + (textLines.length * lineHeight) > pdf.internal.pageSize.height - 20) {
-        pdf.addPage();
-        yPosition = 20;
-      }
-      
-      pdf.text(textLines, 30, yPosition);
-      yPosition += textLines.length * lineHeight;
-    }
-    
-    // Add spacing between entries
-    yPosition += lineHeight * 6;
-    
-    // Check if we need a new page for the next entry
-    if (yPosition > pdf.internal.pageSize.height - 30) {
-      pdf.addPage();
-      yPosition = 20;
+    const main = entry.concurrent && [...groups].reverse().find(group =>
+      earliestMonth(group.entry.startDate) <= latestMonth(entry.startDate) &&
+      latestMonth(group.entry.endDate) >= earliestMonth(entry.startDate)
+    );
+
+    if (main) {
+      main.concurrent.push(entry);
+    } else {
+      groups.push({ entry, concurrent: [] });
     }
   }
-  
-  // Return the PDF as a blob
-  const pdfBlob = pdf.output('blob');
-  return pdfBlob;
-};
-
-// Function for sending the CV via email without downloading
-export const sendCVDocument = async (data: CVData): Promise<void> => {
-  try {
-    console.log('Preparing CV for email submission...');
-    const { personalInfo, entries } = data;
-    
-    // Create document for Word format with minimal styling for faster generation
-    const doc = new Document({
-      creator: "CV Chronologizer",
-      title: `${personalInfo.firstName} ${personalInfo.lastName} CV`,
-      description: "CV generated by CV Chronologizer",
-      styles: {
-        paragraphStyles: [
-          {
-            id: "Heading1",
-            name: "Heading 1",
-            basedOn: "Normal",
-            next: "Normal",
-            run: {
-              size: 28,
-              bold: true,
-              font: "Calibri",
-            },
-            paragraph: {
-              spacing: {
-                after: 240,
-                before: 240,
-              },
-              alignment: AlignmentType.CENTER,
-            },
-          },
-          {
-            id: "Normal",
-            name: "Normal",
-            run: {
-              size: 24,
-              font: "Calibri",
-            },
-          },
-        ],
-      },
-      sections: [
-        {
-          properties: {
-            page: {
-              margin: {
-                top: 1440,
-                right: 1440,
-                bottom: 1440,
-                left: 1440
-              },
-              size: {
-                width: 12240,
-                height: 15840,
-              },
-            },
-          },
-          children: [
-            new Paragraph({
-              alignment: AlignmentType.CENTER,
-              spacing: {
-                before: 240,
-                after: 240,
-              },
-              children: [
-                new TextRun({
-                  text: "CURRICULUM VITAE",
-                  bold: true,
-                  size: 28,
-                }),
-              ],
-            }),
-            
-            new Paragraph({
-              alignment: AlignmentType.CENTER,
-              spacing: {
-                before: 240,
-                after: 240,
-              },
-              children: [
-                new TextRun({
-                  text: `${personalInfo.firstName} ${personalInfo.lastName}`,
-                  bold: true,
-                  size: 28,
-                }),
-              ],
-            }),
-            
-            ...(personalInfo.dateOfBirth ? [
-              new Paragraph({
-                alignment: AlignmentType.CENTER,
-                spacing: { before: 120, after: 120 },
-                children: [
-                  new TextRun({
-                    text: `Date of Birth: ${format(parseISO(personalInfo.dateOfBirth), "dd/MM/yyyy")}`,
-                    size: 24,
-                  }),
-                ],
-              }),
-            ] : []),
-            
-            ...(personalInfo.address ? [
-              new Paragraph({
-                alignment: AlignmentType.CENTER,
-                spacing: { after: 120 },
-                children: [
-                  new TextRun({
-                    text: `${personalInfo.address}${personalInfo.postcode ? `, ${personalInfo.postcode}` : ''}`,
-                    size: 24,
-                  }),
-                ],
-              }),
-            ] : []),
-            
-            ...((personalInfo.email || personalInfo.phone) ? [
-              new Paragraph({
-                alignment: AlignmentType.CENTER,
-                spacing: { after: 240 },
-                children: [
-                  new TextRun({
-                    text: [
-                      personalInfo.email,
-                      personalInfo.phone
-                    ].filter(Boolean).join(" | "),
-                    size: 24,
-                  }),
-                ],
-              }),
-            ] : []),
-            
-            new Paragraph({
-              alignment: AlignmentType.LEFT,
-              spacing: { before: 240, after: 240 },
-              children: [
-                new TextRun({
-                  text: "Chronological History",
-                  bold: true,
-                  size: 26,
-                }),
-              ],
-            }),
-            
-            ...entries
-              .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())
-              .flatMap(entry => {
-                const startDate = formatDateForDisplay(entry.startDate);
-                const endDate = entry.endDate === "present" ? "Present" : formatDateForDisplay(entry.endDate);
-                
-                return [
-                  new Paragraph({
-                    alignment: AlignmentType.LEFT,
-                    spacing: { before: 120, after: 120 },
-                    children: [
-                      new TextRun({
-                        text: `${startDate} - ${endDate}`,
-                        bold: true,
-                        size: 24,
-                      }),
-                    ],
-                  }),
-                  
-                  new Paragraph({
-                    alignment: AlignmentType.LEFT,
-                    spacing: { after: 60 },
-                    children: [
-                      new TextRun({
-                        text: entry.title,
-                        bold: true,
-                        size: 24,
-                      }),
-                    ],
-                  }),
-                  
-                  ...(entry.organization ? [
-                    new Paragraph({
-                      alignment: AlignmentType.LEFT,
-                      spacing: { after: 60 },
-                      children: [
-                        new TextRun({
-                          text: entry.organization,
-                          size: 24,
-                        }),
-                      ],
-                    }),
-                  ] : []),
-                  
-                  ...(entry.country ? [
-                    new Paragraph({
-                      alignment: AlignmentType.LEFT,
-                      spacing: { after: 60 },
-                      children: [
-                        new TextRun({
-                          text: entry.country,
-                          size: 24,
-                        }),
-                      ],
-                    }),
-                  ] : []),
-                  
-                  ...(entry.description ? [
-                    ...convertHtmlToDocumentElements(entry.description),
-                    new Paragraph({ spacing: { after: 240 }, children: [] })
-                  ] : []),
-                ];
-              }),
-          ],
-        },
-      ],
-    });
 
-    console.log('Generating Word document blob...');
-    const blob = await Packer.toBlob(doc);
-    const arrayBuffer = await blob.arrayBuffer();
-    const fileName = `${personalInfo.firstName}_${personalInfo.lastName}_CV.docx`;
-    const file = new File([arrayBuffer], fileName, { 
-      type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      lastModified: new Date().getTime()
-    });
-    
-    console.log('Sending CV document to server...');
-    await sendCV(file, personalInfo.firstName, personalInfo.lastName);
-    console.log('CV sent successfully');
-  } catch (error) {
-    console.error('Error sending CV document:', error);
-    throw error;
-  }
+  return groups;
 };
@@ -0,0 +1,492 @@
+import {
+  Document,
+  Header,
+  Footer,
+  Paragraph,
+  TextRun,
+  AlignmentType,
+  LevelFormat,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
+  BorderStyle,
+  convertMillimetersToTwip
+} from "docx";
+import {
+  CVDocumentDetailsSection,
+  CVDocumentEntry,
+  CVDocumentHistorySection,
+  CVDocumentModel,
+  CVDocumentSection
+} from "./cvDocumentModel";
+import { CVTemplate, PAGE_SIZES } from "./cvTemplates";
+import { RichTextMarkType, RichTextNode, parseRichText } from "./richText";
+
+const LIST_INDENT_STEP = 360;
+const LIST_LEVELS = 6;
+const BULLET_LIST_REFERENCE = "description-bullet-list";
+const ORDERED_LIST_REFERENCE = "description-ordered-list";
+const BULLET_SYMBOLS = ["\u2022", "\u25E6", "\u25AA"];
+const ORDERED_FORMATS = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN];
+
+const NO_BORDERS = {
+  top: { style: BorderStyle.NONE, size: 0, color: "FFFFFF" },
+  bottom: { style: BorderStyle.NONE, size: 0, color: "FFFFFF" },
+  left: { style: BorderStyle.NONE, size: 0, color: "FFFFFF" },
+  right: { style: BorderStyle.NONE, size: 0, color: "FFFFFF" },
+  insideHorizontal: { style: BorderStyle.NONE, size: 0, color: "FFFFFF" },
+  insideVertical: { style: BorderStyle.NONE, size: 0, color: "FFFFFF" },
+};
+
+// Word measures font sizes in half-points
+const toHalfPoints = (points: number) => Math.round(points * 2);
+const toTwip = (mm: number) => Math.round(convertMillimetersToTwip(mm));
+
+interface ListContext {
+  reference: string;
+  instance: number;
+  level: number;
+}
+
+interface DescriptionContext {
+  indent: number; // twips
+  size: number; // half-points
+  spacingAfter: number; // twips
+  // Every ordered list gets its own numbering instance so it restarts at 1
+  nextOrderedInstance: number;
+}
+
+const listIndent = (context: DescriptionContext, level: number) => ({
+  left: context.indent + LIST_INDENT_STEP * (level + 1),
+  hanging: LIST_INDENT_STEP
+});
+
+// Word numbering definitions used by bullet and ordered lists in descriptions
+const buildDescriptionNumbering = (context: DescriptionContext) => ({
+  config: [
+    {
+      reference: BULLET_LIST_REFERENCE,
+      levels: Array.from({ length: LIST_LEVELS }, (_, level) => ({
+        level,
+        format: LevelFormat.BULLET,
+        text: BULLET_SYMBOLS[level % BULLET_SYMBOLS.length],
+        alignment: AlignmentType.LEFT,
+        style: { paragraph: { indent: listIndent(context, level) } },
+      })),
+    },
+    {
+      reference: ORDERED_LIST_REFERENCE,
+      levels: Array.from({ length: LIST_LEVELS }, (_, level) => ({
+        level,
+        format: ORDERED_FORMATS[level % ORDERED_FORMATS.length],
+        text: `%${level + 1}.`,
+        start: 1,
+        alignment: AlignmentType.LEFT,
+        style: { paragraph: { indent: listIndent(context, level) } },
+      })),
+    },
+  ],
+});
+
+const hasMark = (node: RichTextNode, type: RichTextMarkType): boolean =>
+  !!node.marks?.some(mark => mark.type === type);
+
+const convertInlineNodes = (nodes: RichTextNode[] = [], context: DescriptionContext): TextRun[] => {
+  return nodes.map(node => node.type === "hardBreak"
+    ? new TextRun({ break: 1, size: context.size })
+    : new TextRun({
+        text: node.text || "",
+        bold: hasMark(node, "bold"),
+        italics: hasMark(node, "italic"),
+        strike: hasMark(node, "strike"),
+        size: context.size,
+      })
+  );
+};
+
+const convertListItem = (item: RichTextNode, context: DescriptionContext, list: ListContext): Paragraph[] => {
+  let hasMarker = false;
+
+  return (item.content || []).flatMap(child => {
+    if (child.type !== "paragraph") {
+      return convertBlockNodes([child], context, list);
+    }
+
+    // The first paragraph carries the bullet/number, later ones line up with its text
+    const paragraph = new Paragraph({
+      spacing: { before: 0, after: context.spacingAfter },
+      ...(hasMarker
+        ? { indent: { left: listIndent(context, list.level).left } }
+        : { numbering: { reference: list.reference, level: list.level, instance: list.instance } }),
+      children: convertInlineNodes(child.content, context),
+    });
+    hasMarker = true;
+    return [paragraph];
+  });
+};
+
+const convertBlockNodes = (nodes: RichTextNode[] = [], context: DescriptionContext, list?: ListContext): Paragraph[] => {
+  return nodes.flatMap(node => {
+    switch (node.type) {
+      case "paragraph":
+        return [new Paragraph({
+          spacing: { before: 0, after: context.spacingAfter },
+          indent: { left: context.indent },
+          children: convertInlineNodes(node.content, context),
+        })];
+
+      case "bulletList":
+      case "orderedList": {
+        const isOrdered = node.type === "orderedList";
+        const nestedList: ListContext = {
+          reference: isOrdered ? ORDERED_LIST_REFERENCE : BULLET_LIST_REFERENCE,
+          instance: isOrdered ? context.nextOrderedInstance++ : 0,
+          level: list ? Math.min(list.level + 1, LIST_LEVELS - 1) : 0,
+        };
+        return (node.content || []).flatMap(item => convertListItem(item, context, nestedList));
+      }
+
+      case "listItem":
+        return convertListItem(node, context, list || { reference: BULLET_LIST_REFERENCE, instance: 0, level: 0 });
+
+      default:
+        return [];
+    }
+  });
+};
+
+// Convert description HTML from the rich text editor into Word paragraphs
+const convertHtmlToDocumentElements = (html: string, context: DescriptionContext): Paragraph[] => {
+  return convertBlockNodes(parseRichText(html).content, context);
+};
+
+const sectionHeading = (text: string, template: CVTemplate): Paragraph => {
+  return new Paragraph({
+    alignment: AlignmentType.LEFT,
+    spacing: { before: 240, after: 240 },
+    children: [
+      new TextRun({
+        text,
+        bold: true,
+        size: toHalfPoints(template.fontSizes.heading),
+      }),
+    ],
+  });
+};
+
+const renderDetails = (section: CVDocumentDetailsSection, template: CVTemplate, asHeader: boolean): Paragraph[] => {
+  const size = toHalfPoints(template.fontSizes.body);
+
+  if (asHeader) {
+    // Centred lines directly under the name
+    return section.lines.map((line, index) => new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { after: index === section.lines.length - 1 ? 240 : 120 },
+      children: [new TextRun({ text: line, size })],
+    }));
+  }
+
+  return [
+    sectionHeading(section.heading, template),
+    ...section.lines.map(line => new Paragraph({
+      spacing: { after: 120 },
+      children: [new TextRun({ text: line, size })],
+    })),
+  ];
+};
+
+const renderEntryHeading = (entry: CVDocumentEntry, template: CVTemplate, includeDates: boolean): Paragraph[] => {
+  const size = toHalfPoints(template.fontSizes.body);
+  const spacingAfter = toTwip(template.spacing.afterParagraph);
+
+  return [
+    new Paragraph({
+      keepNext: true,
+      spacing: { before: 0, after: spacingAfter },
+      children: [
+        new TextRun({ text: `${entry.label}: `, bold: true, size }),
+        new TextRun({ text: entry.heading, bold: true, size }),
+      ],
+    }),
+    ...(includeDates ? [
+      new Paragraph({
+        keepNext: true,
+        spacing: { before: 0, after: spacingAfter },
+        children: [new TextRun({ text: entry.dateRange, italics: true, size })],
+      }),
+    ] : []),
+    new Paragraph({
+      keepNext: !!(entry.description || entry.reasonForLeaving),
+      spacing: { before: 0, after: spacingAfter },
+      children: [new TextRun({ text: entry.title, italics: true, size })],
+    }),
+  ];
+};
+
+const renderEntry = (
+  entry: CVDocumentEntry,
+  template: CVTemplate,
+  context: DescriptionContext,
+  includeDates: boolean
+): Paragraph[] => [
+  ...renderEntryHeading(entry, template, includeDates),
+  // Only add description if it exists
+  ...(entry.description ? convertHtmlToDocumentElements(entry.description, context) : []),
+  ...(entry.reasonForLeaving ? [
+    new Paragraph({
+      indent: { left: context.indent },
+      spacing: { before: 0, after: context.spacingAfter },
+      children: [
+        new TextRun({ text: "Reason for leaving: ", bold: true, size: context.size }),
+        new TextRun({ text: entry.reasonForLeaving, size: context.size }),
+      ],
+    }),
+  ] : []),
+];
+
+// An entry with the entries held at the same time beside it, in a
+// borderless two-cell table
+const renderEntryWithConcurrent = (
+  entry: CVDocumentEntry,
+  template: CVTemplate,
+  context: DescriptionContext,
+  includeDates: boolean,
+  width: number
+): (Paragraph | Table)[] => {
+  if (entry.concurrent.length === 0) {
+    return renderEntry(entry, template, context, includeDates);
+  }
+
+  const columnWidth = Math.round(width / 2);
+
+  return [
+    new Table({
+      width: { size: width, type: WidthType.DXA },
+      columnWidths: [columnWidth, width - columnWidth],
+      borders: NO_BORDERS,
+      rows: [
+        new TableRow({
+          children: [
+            new TableCell({
+              width: { size: columnWidth, type: WidthType.DXA },
+              margins: { right: 240 },
+              children: renderEntry(entry, template, context, includeDates),
+            }),
+            new TableCell({
+              width: { size: width - columnWidth, type: WidthType.DXA },
+              margins: { left: 240 },
+              borders: {
+                left: { style: BorderStyle.SINGLE, size: 4, color: "D1D5DB" },
+              },
+              children: entry.concurrent.flatMap(concurrentEntry =>
+                renderEntry(concurrentEntry, template, context, true)
+              ),
+            }),
+          ],
+        }),
+      ],
+    }),
+    // Table cells must end with a paragraph, and Word joins tables that touch
+    new Paragraph({ children: [] }),
+  ];
+};
+
+const renderHistory = (
+  section: CVDocumentHistorySection,
+  template: CVTemplate,
+  context: DescriptionContext,
+  contentWidth: number
+): (Paragraph | Table)[] => {
+  const entrySpacing = toTwip(template.spacing.afterEntry);
+
+  if (template.layout === "table") {
+    const dateColumnWidth = Math.round(contentWidth * 0.28);
+    const size = toHalfPoints(template.fontSizes.body);
+
+    return [
+      sectionHeading(section.heading, template),
+      new Table({
+        width: { size: contentWidth, type: WidthType.DXA },
+        columnWidths: [dateColumnWidth, contentWidth - dateColumnWidth],
+        rows: section.entries.map(entry => new TableRow({
+          cantSplit: false,
+          children: [
+            new TableCell({
+              width: { size: dateColumnWidth, type: WidthType.DXA },
+              margins: { top: entrySpacing, bottom: entrySpacing, left: 80, right: 80 },
+              children: [new Paragraph({ children: [new TextRun({ text: entry.dateRange, italics: true, size })] })],
+            }),
+            new TableCell({
+              width: { size: contentWidth - dateColumnWidth, type: WidthType.DXA },
+              margins: { top: entrySpacing, bottom: entrySpacing, left: 80, right: 80 },
+              children: renderEntryWithConcurrent(entry, template, context, false, contentWidth - dateColumnWidth - 160),
+            }),
+          ],
+        })),
+      }),
+    ];
+  }
+
+  return [
+    sectionHeading(section.heading, template),
+    ...section.entries.flatMap(entry => [
+      ...renderEntryWithConcurrent(entry, template, context, true, contentWidth),
+      // Empty paragraph for the bottom margin after each entry
+      new Paragraph({ spacing: { after: entrySpacing }, children: [] }),
+    ]),
+  ];
+};
+
+const renderSection = (
+  section: CVDocumentSection,
+  index: number,
+  template: CVTemplate,
+  context: DescriptionContext,
+  contentWidth: number
+): (Paragraph | Table)[] => {
+  return section.kind === "details"
+    ? renderDetails(section, template, index === 0)
+    : renderHistory(section, template, context, contentWidth);
+};
+
+export const renderDocxDocument = (model: CVDocumentModel): Document => {
+  const { template } = model;
+  const pageSize = PAGE_SIZES[template.page.size];
+  const margins = template.page.margins;
+  const contentWidth = toTwip(pageSize.width - margins.left - margins.right);
+  const isTwoColumn = template.layout === "two-column";
+  const sidebarWidth = Math.round(contentWidth * 0.3);
+
+  const context: DescriptionContext = {
+    indent: template.layout === "standard" ? 720 : 0,
+    size: toHalfPoints(template.fontSizes.body),
+    spacingAfter: toTwip(template.spacing.afterParagraph),
+    nextOrderedInstance: 1,
+  };
+
+  const header = [
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 240, after: 240 },
+      children: [
+        new TextRun({
+          text: model.title,
+          bold: true,
+          size: toHalfPoints(template.fontSizes.title),
+          color: model.branding.headingColor.replace("#", ""),
+        }),
+      ],
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 240, after: 240 },
+      children: [
+        new TextRun({
+          text: model.name,
+          bold: true,
+          size: toHalfPoints(template.fontSizes.name),
+        }),
+      ],
+    }),
+  ];
+
+  // Two-column templates put personal details in a side column next to the
+  // history, using a borderless table
+  const body: (Paragraph | Table)[] = isTwoColumn
+    ? [
+        new Table({
+          width: { size: contentWidth, type: WidthType.DXA },
+          columnWidths: [sidebarWidth, contentWidth - sidebarWidth],
+          borders: NO_BORDERS,
+          rows: [
+            new TableRow({
+              children: [
+                new TableCell({
+                  width: { size: sidebarWidth, type: WidthType.DXA },
+                  margins: { right: 240 },
+                  children: model.sections
+                    .filter(section => section.kind === "details")
+                    .flatMap(section => renderSection(section, 1, template, context, sidebarWidth)),
+                }),
+                new TableCell({
+                  width: { size: contentWidth - sidebarWidth, type: WidthType.DXA },
+                  children: model.sections
+                    .filter(section => section.kind !== "details")
+                    .flatMap(section => renderSection(section, 1, template, context, contentWidth - sidebarWidth)),
+                }),
+              ],
+            }),
+          ],
+        }),
+      ]
+    : model.sections.flatMap((section, index) => renderSection(section, index, template, context, contentWidth));
+
+  // Agency text repeated on every page
+  const pageText = (text: string) => new Paragraph({
+    alignment: AlignmentType.CENTER,
+    children: [new TextRun({ text, size: toHalfPoints(template.fontSizes.body - 2), color: "6B7280" })],
+  });
+
+  return new Document({
+    creator: model.metadata.creator,
+    title: model.metadata.title,
+    description: model.metadata.description,
+    numbering: buildDescriptionNumbering(context),
+    styles: {
+      paragraphStyles: [
+        {
+          id: "Heading1",
+          name: "Heading 1",
+          basedOn: "Normal",
+          next: "Normal",
+          run: {
+            size: toHalfPoints(template.fontSizes.title),
+            bold: true,
+            font: template.fonts.docx,
+          },
+          paragraph: {
+            spacing: {
+              after: 240,
+              before: 240,
+            },
+            alignment: AlignmentType.CENTER,
+          },
+        },
+        {
+          id: "Normal",
+          name: "Normal",
+          run: {
+            size: toHalfPoints(template.fontSizes.body),
+            font: template.fonts.docx,
+          },
+        },
+      ],
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            margin: {
+              top: toTwip(margins.top),
+              right: toTwip(margins.right),
+              bottom: toTwip(margins.bottom),
+              left: toTwip(margins.left),
+            },
+            size: {
+              width: toTwip(pageSize.width),
+              height: toTwip(pageSize.height),
+            },
+          },
+        },
+        headers: model.branding.header
+          ? { default: new Header({ children: [pageText(model.branding.header)] }) }
+          : undefined,
+        footers: model.branding.footer
+          ? { default: new Footer({ children: [pageText(model.branding.footer)] }) }
+          : undefined,
+        children: [...header, ...body],
+      },
+    ],
+  });
+};
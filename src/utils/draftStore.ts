@@ -0,0 +1,177 @@
+import { PersonalInfo, TimelineEntry, TimelineGap } from "./cvUtils";
+import { CVDataJSON, fromCVDataJSON, toCVDataJSON } from "./cvSchema";
+
+// Bump this whenever the shape of a stored draft changes. Drafts written by
+// another version are discarded rather than loaded into the editor.
+export const DRAFT_VERSION = 1;
+
+const DB_NAME = "cv-chronologizer";
+const DB_STORE = "drafts";
+const DRAFT_KEY = "current";
+const LOCAL_STORAGE_KEY = "cv-chronologizer:draft";
+
+export interface CVDraft {
+  version: number;
+  savedAt: string; // ISO timestamp
+  personalInfo: PersonalInfo;
+  entries: TimelineEntry[];
+  acknowledgedGaps?: TimelineGap[]; // missing from drafts saved before gaps could be acknowledged
+  editingEntryId: string | null;
+  submissionKey?: string; // idempotency key for submitting this draft, missing from older drafts
+}
+
+export type CVDraftContent = Omit<CVDraft, "version" | "savedAt">;
+
+// Drafts hold dates as yyyy-MM strings, like saved files
+type StoredCVDraft = Omit<CVDraft, "entries" | "acknowledgedGaps"> & CVDataJSON;
+
+// Returns true if the draft holds anything worth offering to restore
+export const draftHasContent = (draft: CVDraftContent): boolean => {
+  const { personalInfo, entries } = draft;
+  return entries.length > 0 || Object.values(personalInfo).some(value => !!value);
+};
+
+const isValidDraft = (value: unknown): value is StoredCVDraft => {
+  if (!value || typeof value !== "object") return false;
+  const draft = value as StoredCVDraft;
+  return draft.version === DRAFT_VERSION &&
+    typeof draft.savedAt === "string" &&
+    !!draft.personalInfo &&
+    Array.isArray(draft.entries);
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Opens the draft database, resolving to null when IndexedDB is unavailable
+// (private browsing, old WebViews) so callers can fall back to localStorage
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DB_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("Error opening draft database:", request.error);
+        resolve(null);
+      };
+      request.onblocked = () => resolve(null);
+    } catch (error) {
+      console.error("Error opening draft database:", error);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+};
+
+const runRequest = <T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DB_STORE, mode);
+    const request = operation(transaction.objectStore(DB_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const readLocalStorage = (): unknown => {
+  try {
+    const raw = localStorage.getItem(LOCAL_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    console.error("Error reading draft from localStorage:", error);
+    return null;
+  }
+};
+
+export const loadDraft = async (): Promise<CVDraft | null> => {
+  const db = await openDatabase();
+  let stored: unknown = null;
+
+  if (db) {
+    try {
+      stored = await runRequest(db, "readonly", store => store.get(DRAFT_KEY));
+    } catch (error) {
+      console.error("Error reading draft from IndexedDB:", error);
+    }
+  }
+
+  if (!stored) {
+    stored = readLocalStorage();
+  }
+
+  if (!isValidDraft(stored)) return null;
+
+  try {
+    const { entries, acknowledgedGaps } = fromCVDataJSON(stored);
+    return { ...stored, entries, acknowledgedGaps };
+  } catch (error) {
+    console.error("Discarding a draft that could not be read:", error);
+    return null;
+  }
+};
+
+// A failed save is reported rather than thrown, e.g. when localStorage is full
+// or unavailable in private browsing, so the editor can warn that its changes
+// are no longer being kept
+export type SaveDraftResult =
+  | { success: true; draft: CVDraft }
+  | { success: false; error: unknown };
+
+export const saveDraft = async (content: CVDraftContent): Promise<SaveDraftResult> => {
+  const draft: CVDraft = {
+    ...content,
+    version: DRAFT_VERSION,
+    savedAt: new Date().toISOString()
+  };
+  const { entries, acknowledgedGaps } = toCVDataJSON(draft);
+  const stored: StoredCVDraft = { ...draft, entries, acknowledgedGaps };
+
+  const db = await openDatabase();
+  if (db) {
+    try {
+      await runRequest(db, "readwrite", store => store.put(stored, DRAFT_KEY));
+      return { success: true, draft };
+    } catch (error) {
+      console.error("Error writing draft to IndexedDB, falling back to localStorage:", error);
+    }
+  }
+
+  try {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(stored));
+    return { success: true, draft };
+  } catch (error) {
+    console.error("Error writing draft to localStorage:", error);
+    return { success: false, error };
+  }
+};
+
+export const clearDraft = async (): Promise<void> => {
+  const db = await openDatabase();
+  if (db) {
+    try {
+      await runRequest(db, "readwrite", store => store.delete(DRAFT_KEY));
+    } catch (error) {
+      console.error("Error clearing draft from IndexedDB:", error);
+    }
+  }
+
+  try {
+    localStorage.removeItem(LOCAL_STORAGE_KEY);
+  } catch (error) {
+    console.error("Error clearing draft from localStorage:", error);
+  }
+};
@@ -0,0 +1,27 @@
+// Remembers the candidate's email verification for the browser session, so
+// going back to the editor and previewing again does not need a new code.
+// Changing the email address needs a new verification.
+
+const VERIFICATION_KEY = "cv-chronologizer:email-verification";
+
+interface StoredVerification {
+  email: string;
+  token: string;
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const getStoredVerificationToken = (email?: string): string | null => {
+  if (!email) return null;
+  try {
+    const stored: StoredVerification | null = JSON.parse(sessionStorage.getItem(VERIFICATION_KEY) || "null");
+    return stored && stored.email === normalizeEmail(email) ? stored.token : null;
+  } catch {
+    return null;
+  }
+};
+
+export const storeVerificationToken = (email: string, token: string): void => {
+  const stored: StoredVerification = { email: normalizeEmail(email), token };
+  sessionStorage.setItem(VERIFICATION_KEY, JSON.stringify(stored));
+};
@@ -0,0 +1,297 @@
+import { jsPDF } from 'jspdf';
+
+// A small layout engine on top of jsPDF. It wraps runs of mixed bold/italic
+// text into lines, draws them one line at a time and starts a new page
+// whenever the next line would not fit, so no content runs off the page.
+
+const POINTS_TO_MM = 25.4 / 72;
+
+export interface PdfRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  lineBreak?: boolean; // forces the following runs onto a new line
+}
+
+export interface PdfParagraph {
+  runs: PdfRun[];
+  fontSize: number;
+  indent?: number; // mm from the left margin
+  marker?: string; // e.g. a bullet, drawn in the space before the indent
+  aside?: string; // italic text at the left margin on the first line, e.g. dates
+  align?: "left" | "center";
+  color?: string; // hex, defaults to black
+  spaceBefore?: number; // mm
+  spaceAfter?: number; // mm
+}
+
+export interface PdfLayoutOptions {
+  fontFamily: string;
+  margins: { top: number; right: number; bottom: number; left: number };
+  lineHeightFactor?: number;
+  startY?: number; // mm from the top of the first page, defaults to the top margin
+}
+
+export interface PdfColumns {
+  left: PdfLayout;
+  right: PdfLayout;
+  continueBelow: () => void;
+}
+
+export interface PdfLayout {
+  contentWidth: number; // mm
+  writeParagraph: (paragraph: PdfParagraph) => void;
+  writeKeptTogether: (paragraphs: PdfParagraph[], next?: PdfParagraph) => void;
+  ensureSpace: (height: number) => void;
+  moveDown: (distance: number) => void;
+  splitColumns: (leftWidth: number, gap: number) => PdfColumns;
+  getY: () => number;
+  getPage: () => number;
+}
+
+type FontStyle = "normal" | "bold" | "italic" | "bolditalic";
+
+interface PdfLineSegment {
+  text: string;
+  style: FontStyle;
+  width: number;
+}
+
+interface PdfLine {
+  segments: PdfLineSegment[];
+  width: number;
+}
+
+const toFontStyle = (run: PdfRun): FontStyle => {
+  if (run.bold && run.italic) return "bolditalic";
+  if (run.bold) return "bold";
+  if (run.italic) return "italic";
+  return "normal";
+};
+
+export const createPdfLayout = (pdf: jsPDF, options: PdfLayoutOptions): PdfLayout => {
+  const { fontFamily, margins } = options;
+  const lineHeightFactor = options.lineHeightFactor ?? 1.4;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - margins.left - margins.right;
+
+  let y = options.startY ?? margins.top;
+  // Several layouts can share one document (e.g. a side column next to the
+  // main column), so each one tracks the page it is writing to
+  let page = pdf.getCurrentPageInfo().pageNumber;
+
+  const lineHeight = (fontSize: number) => fontSize * POINTS_TO_MM * lineHeightFactor;
+
+  const measure = (text: string, style: FontStyle, fontSize: number): number => {
+    pdf.setFont(fontFamily, style);
+    pdf.setFontSize(fontSize);
+    return pdf.getTextWidth(text);
+  };
+
+  // Split a word that is wider than a whole line into pieces that fit
+  const splitLongWord = (word: string, style: FontStyle, fontSize: number, width: number): string[] => {
+    const pieces: string[] = [];
+    let current = "";
+    for (const char of word) {
+      if (current && measure(current + char, style, fontSize) > width) {
+        pieces.push(current);
+        current = char;
+      } else {
+        current += char;
+      }
+    }
+    if (current) pieces.push(current);
+    return pieces;
+  };
+
+  const wrapRuns = (runs: PdfRun[], fontSize: number, width: number): PdfLine[] => {
+    const lines: PdfLine[] = [];
+    let line: PdfLine = { segments: [], width: 0 };
+
+    const pushLine = () => {
+      // Trailing spaces should not count towards the width used for centring
+      const last = line.segments[line.segments.length - 1];
+      if (last && !last.text.trim()) {
+        line.width -= last.width;
+        line.segments.pop();
+      }
+      lines.push(line);
+      line = { segments: [], width: 0 };
+    };
+
+    const addToken = (text: string, style: FontStyle, tokenWidth: number) => {
+      const last = line.segments[line.segments.length - 1];
+      if (last && last.style === style) {
+        last.text += text;
+        last.width = measure(last.text, style, fontSize);
+        line.width = line.segments.reduce((total, segment) => total + segment.width, 0);
+      } else {
+        line.segments.push({ text, style, width: tokenWidth });
+        line.width += tokenWidth;
+      }
+    };
+
+    for (const run of runs) {
+      if (run.lineBreak) {
+        pushLine();
+        continue;
+      }
+
+      const style = toFontStyle(run);
+      const tokens = run.text.replace(/\s+/g, " ").split(/( )/).filter(Boolean);
+
+      for (const token of tokens) {
+        const isSpace = token === " ";
+        // Drop spaces at the start of a line
+        if (isSpace && line.segments.length === 0) continue;
+
+        const tokenWidth = measure(token, style, fontSize);
+        if (!isSpace && line.width + tokenWidth > width && line.segments.length > 0) {
+          pushLine();
+        }
+
+        if (!isSpace && tokenWidth > width) {
+          const pieces = splitLongWord(token, style, fontSize, width);
+          pieces.forEach((piece, index) => {
+            addToken(piece, style, measure(piece, style, fontSize));
+            if (index < pieces.length - 1) pushLine();
+          });
+        } else {
+          addToken(token, style, tokenWidth);
+        }
+      }
+    }
+
+    if (line.segments.length > 0 || lines.length === 0) {
+      pushLine();
+    }
+
+    return lines;
+  };
+
+  const layoutParagraph = (paragraph: PdfParagraph): PdfLine[] => {
+    return wrapRuns(paragraph.runs, paragraph.fontSize, contentWidth - (paragraph.indent ?? 0));
+  };
+
+  // Start a new page unless the given height still fits on this one
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margins.bottom && y > margins.top) {
+      if (page < pdf.getNumberOfPages()) {
+        pdf.setPage(page + 1);
+      } else {
+        pdf.addPage();
+      }
+      page++;
+      y = margins.top;
+    }
+  };
+
+  const drawLine = (line: PdfLine, paragraph: PdfParagraph, isFirstLine: boolean) => {
+    const indent = paragraph.indent ?? 0;
+    let x = paragraph.align === "center"
+      ? margins.left + (contentWidth - line.width) / 2
+      : margins.left + indent;
+
+    pdf.setPage(page);
+    pdf.setFontSize(paragraph.fontSize);
+    pdf.setTextColor(paragraph.color ?? "#000000");
+
+    if (isFirstLine && paragraph.aside) {
+      pdf.setFont(fontFamily, "italic");
+      pdf.text(paragraph.aside, margins.left, y, { baseline: "top" });
+    }
+
+    if (isFirstLine && paragraph.marker) {
+      pdf.setFont(fontFamily, "normal");
+      pdf.text(paragraph.marker, x - measure(`${paragraph.marker} `, "normal", paragraph.fontSize), y, { baseline: "top" });
+    }
+
+    for (const segment of line.segments) {
+      pdf.setFont(fontFamily, segment.style);
+      pdf.text(segment.text, x, y, { baseline: "top" });
+      x += segment.width;
+    }
+  };
+
+  // Height of the paragraph's first line including the space above it, used to
+  // keep headings on the same page as the start of the content below them
+  const firstLineHeight = (paragraph: PdfParagraph): number => {
+    return (paragraph.spaceBefore ?? 0) + lineHeight(paragraph.fontSize);
+  };
+
+  const paragraphHeight = (paragraph: PdfParagraph): number => {
+    return (paragraph.spaceBefore ?? 0) +
+      layoutParagraph(paragraph).length * lineHeight(paragraph.fontSize) +
+      (paragraph.spaceAfter ?? 0);
+  };
+
+  const writeParagraph = (paragraph: PdfParagraph) => {
+    const lines = layoutParagraph(paragraph);
+    const height = lineHeight(paragraph.fontSize);
+
+    if (y > margins.top) {
+      y += paragraph.spaceBefore ?? 0;
+    }
+
+    lines.forEach((line, index) => {
+      ensureSpace(height);
+      drawLine(line, paragraph, index === 0);
+      y += height;
+    });
+
+    y += paragraph.spaceAfter ?? 0;
+  };
+
+  // Write a group of paragraphs that must not be split from each other or
+  // from the first line of whatever follows them
+  const writeKeptTogether = (paragraphs: PdfParagraph[], next?: PdfParagraph) => {
+    const height = paragraphs.reduce((total, paragraph) => total + paragraphHeight(paragraph), 0) +
+      (next ? firstLineHeight(next) : 0);
+    ensureSpace(height);
+    paragraphs.forEach(writeParagraph);
+  };
+
+  const moveDown = (distance: number) => {
+    y += distance;
+  };
+
+  const getY = () => y;
+
+  // Lay out side-by-side columns from the current position. Each column flows
+  // onto new pages by itself; call continueBelow once they are written to move
+  // this layout below whichever column ended lowest.
+  const splitColumns = (leftWidth: number, gap: number): PdfColumns => {
+    const columnOptions = (left: number, right: number): PdfLayoutOptions => ({
+      ...options,
+      margins: { ...margins, left, right },
+      lineHeightFactor,
+      startY: y
+    });
+
+    pdf.setPage(page);
+    const left = createPdfLayout(pdf, columnOptions(margins.left, pageWidth - margins.left - leftWidth));
+    const right = createPdfLayout(pdf, columnOptions(margins.left + leftWidth + gap, margins.right));
+
+    const continueBelow = () => {
+      const lowest = [left, right].reduce((a, b) =>
+        b.getPage() > a.getPage() || (b.getPage() === a.getPage() && b.getY() > a.getY()) ? b : a
+      );
+      page = lowest.getPage();
+      y = lowest.getY();
+    };
+
+    return { left, right, continueBelow };
+  };
+
+  return {
+    contentWidth,
+    writeParagraph,
+    writeKeptTogether,
+    ensureSpace,
+    moveDown,
+    splitColumns,
+    getY,
+    getPage: () => page
+  };
+};
@@ -0,0 +1,277 @@
+import { jsPDF } from 'jspdf';
+import { CVDocumentDetailsSection, CVDocumentEntry, CVDocumentHistorySection, CVDocumentModel } from "./cvDocumentModel";
+import { CVTemplate } from "./cvTemplates";
+import { PdfLayout, PdfParagraph, PdfRun, createPdfLayout } from "./pdfLayout";
+import { RichTextMarkType, RichTextNode, parseRichText } from "./richText";
+
+const LIST_INDENT_STEP = 6; // mm
+const DATE_COLUMN_WIDTH = 45; // mm, table layout
+const SIDEBAR_RATIO = 0.3; // share of the content width, two-column layout
+const COLUMN_GAP = 6; // mm
+const BULLET_SYMBOLS = ['\u2022', '\u2013', '\u00B7'];
+
+interface DescriptionStyle {
+  fontSize: number;
+  indent: number; // mm
+  spaceAfter: number; // mm
+}
+
+const hasMark = (node: RichTextNode, type: RichTextMarkType): boolean =>
+  !!node.marks?.some(mark => mark.type === type);
+
+const toRuns = (nodes: RichTextNode[] = []): PdfRun[] => {
+  return nodes.map(node => node.type === 'hardBreak'
+    ? { text: '', lineBreak: true }
+    : { text: node.text || '', bold: hasMark(node, 'bold'), italic: hasMark(node, 'italic') }
+  );
+};
+
+// Turn the parsed description into paragraphs, indenting list items by their
+// nesting level and giving the first paragraph of each item its bullet/number
+const descriptionParagraphs = (nodes: RichTextNode[] = [], style: DescriptionStyle, level: number = -1): PdfParagraph[] => {
+  return nodes.flatMap(node => {
+    switch (node.type) {
+      case 'paragraph':
+        return [{
+          runs: toRuns(node.content),
+          fontSize: style.fontSize,
+          indent: style.indent + (level + 1) * LIST_INDENT_STEP,
+          spaceAfter: style.spaceAfter
+        }];
+
+      case 'bulletList':
+      case 'orderedList': {
+        const itemLevel = level + 1;
+        const start = node.attrs?.start ?? 1;
+
+        return (node.content || []).flatMap((item, index) => {
+          let marker = node.type === 'orderedList'
+            ? `${start + index}.`
+            : BULLET_SYMBOLS[itemLevel % BULLET_SYMBOLS.length];
+
+          return (item.content || []).flatMap(child => {
+            if (child.type !== 'paragraph') {
+              return descriptionParagraphs([child], style, itemLevel);
+            }
+
+            const paragraph: PdfParagraph = {
+              runs: toRuns(child.content),
+              fontSize: style.fontSize,
+              indent: style.indent + (itemLevel + 1) * LIST_INDENT_STEP,
+              marker,
+              spaceAfter: style.spaceAfter
+            };
+            marker = undefined;
+            return [paragraph];
+          });
+        });
+      }
+
+      case 'listItem':
+        return descriptionParagraphs([{ type: 'bulletList', content: [node] }], style, level);
+
+      default:
+        return [];
+    }
+  });
+};
+
+const sectionHeading = (text: string, template: CVTemplate): PdfParagraph => ({
+  runs: [{ text, bold: true }],
+  fontSize: template.fontSizes.heading,
+  spaceBefore: 2,
+  spaceAfter: 4
+});
+
+const writeDetails = (layout: PdfLayout, section: CVDocumentDetailsSection, template: CVTemplate, asHeader: boolean) => {
+  if (asHeader) {
+    // Centred lines directly under the name
+    for (const line of section.lines) {
+      layout.writeParagraph({ runs: [{ text: line }], fontSize: template.fontSizes.body, align: 'center' });
+    }
+    layout.moveDown(8);
+    return;
+  }
+
+  layout.writeKeptTogether([sectionHeading(section.heading, template)]);
+  for (const line of section.lines) {
+    layout.writeParagraph({ runs: [{ text: line }], fontSize: template.fontSizes.body, spaceAfter: template.spacing.afterParagraph });
+  }
+  layout.moveDown(template.spacing.afterEntry);
+};
+
+// With dateAside the dates sit in the table layout's date column beside the
+// entry instead of under its heading
+const entryHeadingParagraphs = (entry: CVDocumentEntry, template: CVTemplate, dateAside: boolean): PdfParagraph[] => {
+  const fontSize = template.fontSizes.body;
+
+  if (dateAside) {
+    return [
+      { runs: [{ text: `${entry.label}: ${entry.heading}`, bold: true }], fontSize, indent: DATE_COLUMN_WIDTH, aside: entry.dateRange },
+      { runs: [{ text: entry.title, italic: true }], fontSize, indent: DATE_COLUMN_WIDTH, spaceAfter: template.spacing.afterParagraph }
+    ];
+  }
+
+  return [
+    { runs: [{ text: `${entry.label}: ${entry.heading}`, bold: true }], fontSize },
+    { runs: [{ text: entry.dateRange, italic: true }], fontSize },
+    { runs: [{ text: entry.title, italic: true }], fontSize, spaceAfter: template.spacing.afterParagraph }
+  ];
+};
+
+const writeEntry = (
+  layout: PdfLayout,
+  entry: CVDocumentEntry,
+  template: CVTemplate,
+  descriptionStyle: DescriptionStyle,
+  dateAside: boolean,
+  leading: PdfParagraph[] = []
+) => {
+  const description = entry.description
+    ? descriptionParagraphs(parseRichText(entry.description).content, descriptionStyle)
+    : [];
+  if (entry.reasonForLeaving) {
+    description.push({
+      runs: [{ text: 'Reason for leaving: ', bold: true }, { text: entry.reasonForLeaving }],
+      fontSize: descriptionStyle.fontSize,
+      indent: descriptionStyle.indent,
+      spaceAfter: descriptionStyle.spaceAfter
+    });
+  }
+
+  layout.writeKeptTogether([...leading, ...entryHeadingParagraphs(entry, template, dateAside)], description[0]);
+  description.forEach(paragraph => layout.writeParagraph(paragraph));
+};
+
+const writeHistory = (layout: PdfLayout, section: CVDocumentHistorySection, template: CVTemplate) => {
+  const heading = sectionHeading(section.heading, template);
+  const isTable = template.layout === 'table';
+  const descriptionStyle: DescriptionStyle = {
+    fontSize: template.fontSizes.body,
+    indent: isTable ? DATE_COLUMN_WIDTH : template.layout === 'standard' ? 10 : 0,
+    spaceAfter: template.spacing.afterParagraph
+  };
+
+  if (section.entries.length === 0) {
+    layout.writeParagraph(heading);
+    return;
+  }
+
+  section.entries.forEach((entry, index) => {
+    // Keep the section heading with its first entry
+    const leading = index === 0 ? [heading] : [];
+
+    if (entry.concurrent.length === 0) {
+      writeEntry(layout, entry, template, descriptionStyle, isTable, leading);
+    } else {
+      // Entries held at the same time go in a column beside this one. In the
+      // table layout the columns share the space right of the date column.
+      if (leading.length > 0) {
+        layout.writeKeptTogether(leading, entryHeadingParagraphs(entry, template, isTable)[0]);
+      }
+
+      const sharedWidth = layout.contentWidth - (isTable ? DATE_COLUMN_WIDTH : 0);
+      const columnWidth = (sharedWidth - COLUMN_GAP) / 2;
+      const columns = layout.splitColumns(columnWidth + (isTable ? DATE_COLUMN_WIDTH : 0), COLUMN_GAP);
+
+      writeEntry(columns.left, entry, template, descriptionStyle, isTable);
+      entry.concurrent.forEach((concurrentEntry, concurrentIndex) => {
+        if (concurrentIndex > 0) columns.right.moveDown(template.spacing.afterEntry);
+        writeEntry(columns.right, concurrentEntry, template, { ...descriptionStyle, indent: isTable ? 0 : descriptionStyle.indent }, false);
+      });
+      columns.continueBelow();
+    }
+
+    layout.moveDown(template.spacing.afterEntry);
+  });
+};
+
+// Agency text repeated in the top and bottom margins of every page
+const writePageHeaderAndFooter = (pdf: jsPDF, model: CVDocumentModel) => {
+  const { header, footer } = model.branding;
+  if (!header && !footer) return;
+
+  const { template } = model;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margins = template.page.margins;
+
+  pdf.setFont(template.fonts.pdf, 'normal');
+  pdf.setFontSize(template.fontSizes.body - 2);
+  pdf.setTextColor('#6b7280');
+
+  for (let page = 1; page <= pdf.getNumberOfPages(); page++) {
+    pdf.setPage(page);
+    if (header) {
+      pdf.text(header, pageWidth / 2, margins.top / 2, { align: 'center', baseline: 'middle' });
+    }
+    if (footer) {
+      pdf.text(footer, pageWidth / 2, pageHeight - margins.bottom / 2, { align: 'center', baseline: 'middle' });
+    }
+  }
+
+  pdf.setTextColor('#000000');
+};
+
+export const renderPdfDocument = (model: CVDocumentModel): jsPDF => {
+  const { template } = model;
+  const margins = template.page.margins;
+
+  // Create a new PDF document in the template's page size, portrait orientation
+  const pdf = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: template.page.size
+  });
+
+  // Set document properties
+  pdf.setProperties({
+    title: model.metadata.title,
+    author: model.metadata.creator,
+    creator: model.metadata.creator,
+    subject: 'Curriculum Vitae'
+  });
+
+  const layout = createPdfLayout(pdf, {
+    fontFamily: template.fonts.pdf,
+    margins
+  });
+
+  // Document title and name
+  layout.writeParagraph({ runs: [{ text: model.title, bold: true }], fontSize: template.fontSizes.title, align: 'center', color: model.branding.headingColor, spaceAfter: 2 });
+  layout.writeParagraph({ runs: [{ text: model.name, bold: true }], fontSize: template.fontSizes.name, align: 'center', spaceAfter: 3 });
+
+  if (template.layout === 'two-column') {
+    // Personal details in a side column, history in the main column, both
+    // starting below the header
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const contentWidth = pageWidth - margins.left - margins.right;
+    const sidebarWidth = contentWidth * SIDEBAR_RATIO;
+    const startY = layout.getY() + 4;
+
+    const sidebar = createPdfLayout(pdf, {
+      fontFamily: template.fonts.pdf,
+      margins: { ...margins, right: pageWidth - margins.left - sidebarWidth },
+      startY
+    });
+    const main = createPdfLayout(pdf, {
+      fontFamily: template.fonts.pdf,
+      margins: { ...margins, left: margins.left + sidebarWidth + COLUMN_GAP },
+      startY
+    });
+
+    model.sections.forEach(section => section.kind === 'details'
+      ? writeDetails(sidebar, section, template, false)
+      : writeHistory(main, section, template)
+    );
+  } else {
+    model.sections.forEach((section, index) => section.kind === 'details'
+      ? writeDetails(layout, section, template, index === 0)
+      : writeHistory(layout, section, template)
+    );
+  }
+
+  writePageHeaderAndFooter(pdf, model);
+
+  return pdf;
+};
@@ -0,0 +1,80 @@
+import { EntryType, TimelineEntry, parseDateString } from "./cvUtils";
+import { ValidationIssue } from "./validation";
+import { earliestMonth, latestMonth, parseYearMonth, toMonthIndex } from "./yearMonth";
+
+// Checks that a history makes sense for the candidate's age, e.g. no job at
+// age 9. Unlike the validation rules these only raise warnings: an unusual
+// history can still be true, so the candidate is asked to check the dates
+// but may go ahead.
+
+// Youngest age an entry of each type is expected to start at
+const MINIMUM_START_AGES: Partial<Record<EntryType, number>> = {
+  education: 2,
+  work: 13
+};
+
+// University and similar courses are not expected before this age
+const HIGHER_EDUCATION_MINIMUM_AGE = 16;
+const HIGHER_EDUCATION_PATTERN = /\b(university|degree|bachelor'?s?|master'?s?|bsc|ba|msc|ma|mba|phd|doctorate|undergraduate|postgraduate)\b/i;
+
+// Longest a single entry of each type is expected to last, in years. A
+// single "Primary/Secondary School" entry covers about 12 years of school.
+const MAXIMUM_LENGTH_YEARS: Record<EntryType, number> = {
+  education: 14,
+  work: 30,
+  gap: 5
+};
+
+const HIGHER_EDUCATION_MAXIMUM_LENGTH_YEARS = 8;
+
+const isHigherEducation = (entry: TimelineEntry) =>
+  entry.type === "education" && HIGHER_EDUCATION_PATTERN.test(`${entry.title} ${entry.organization}`);
+
+// Rules for a single entry. Imprecise dates are read as favourably as
+// possible, so a warning is only raised when every reading is implausible.
+const checkEntry = (entry: TimelineEntry, birthMonth: number | null): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const warn = (path: string, code: ValidationIssue["code"], message: string) =>
+    issues.push({ path: [path], entryId: entry.id, code, severity: "warning", message });
+
+  if (earliestMonth(entry.startDate) > toMonthIndex("present")) {
+    warn("startDate", "future_start", "This entry starts in the future. Please check the start date.");
+  }
+
+  if (birthMonth !== null) {
+    // Oldest the candidate could have been when the entry started, in years
+    const startAge = Math.floor((latestMonth(entry.startDate) - birthMonth) / 12);
+    const minimumAge = isHigherEducation(entry) ? HIGHER_EDUCATION_MINIMUM_AGE : MINIMUM_START_AGES[entry.type];
+
+    if (startAge < 0) {
+      warn("startDate", "before_birth", "This entry starts before your date of birth. Please check the start date.");
+    } else if (minimumAge !== undefined && startAge < minimumAge) {
+      warn(
+        "startDate",
+        "implausible_age",
+        `You would have been ${startAge} when this ${isHigherEducation(entry) ? "course" : entry.type === "work" ? "job" : "entry"} started. Please check the dates.`
+      );
+    }
+  }
+
+  // Shortest the entry could be, in whole years
+  const lengthYears = Math.floor((earliestMonth(entry.endDate) - latestMonth(entry.startDate) + 1) / 12);
+  const maximumLengthYears = isHigherEducation(entry) ? HIGHER_EDUCATION_MAXIMUM_LENGTH_YEARS : MAXIMUM_LENGTH_YEARS[entry.type];
+  if (lengthYears > maximumLengthYears) {
+    warn(
+      "endDate",
+      "very_long_entry",
+      `This entry lasts ${lengthYears} years. Please check the dates, or split it into separate entries.`
+    );
+  }
+
+  return issues;
+};
+
+// Warnings for every entry, with paths relative to the entry like the
+// validation rules
+export const findPlausibilityWarnings = (entries: TimelineEntry[], dateOfBirth?: string): ValidationIssue[] => {
+  const birth = parseYearMonth(parseDateString(dateOfBirth));
+  const birthMonth = birth ? toMonthIndex(birth) : null;
+  return entries.flatMap(entry => checkEntry(entry, birthMonth));
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { decodeHtmlEntities, parseRichText, sanitizeRichText } from "./richText";
+
+describe("decodeHtmlEntities", () => {
+  it("decodes named and numeric entities", () => {
+    expect(decodeHtmlEntities("Fish &amp; chips &lt;3 &#8364;5 &#x2713;")).toBe("Fish & chips <3 €5 ✓");
+  });
+
+  it("leaves unknown and out of range entities alone", () => {
+    expect(decodeHtmlEntities("&copy; &#x110000;")).toBe("&copy; &#x110000;");
+  });
+});
+
+describe("parseRichText", () => {
+  it("parses paragraphs with marked text", () => {
+    expect(parseRichText("<p>Led a <strong>team of <em>five</em></strong></p>")).toEqual({
+      type: "doc",
+      content: [{
+        type: "paragraph",
+        content: [
+          { type: "text", text: "Led a ", marks: undefined },
+          { type: "text", text: "team of ", marks: [{ type: "bold" }] },
+          { type: "text", text: "five", marks: [{ type: "bold" }, { type: "italic" }] }
+        ]
+      }]
+    });
+  });
+
+  it("wraps loose text in paragraphs", () => {
+    expect(parseRichText("Plain description")).toEqual({
+      type: "doc",
+      content: [{ type: "paragraph", content: [{ type: "text", text: "Plain description", marks: undefined }] }]
+    });
+  });
+
+  it("parses lists and keeps the start of an ordered list", () => {
+    const doc = parseRichText("<ol start=\"3\"><li><p>One</p></li>\n<li>Two</li></ol>");
+    const list = doc.content[0];
+
+    expect(list).toMatchObject({ type: "orderedList", attrs: { start: 3 } });
+    expect(list.content).toHaveLength(2);
+    expect(list.content[1]).toEqual({
+      type: "listItem",
+      content: [{ type: "paragraph", content: [{ type: "text", text: "Two", marks: undefined }] }]
+    });
+  });
+
+  it("turns breaks into hard breaks", () => {
+    expect(parseRichText("<p>One<br>Two</p>").content[0].content.map(node => node.type))
+      .toEqual(["text", "hardBreak", "text"]);
+  });
+
+  it("closes a paragraph when a block starts inside it", () => {
+    const doc = parseRichText("<p>Intro<ul><li>Item</li></ul></p>");
+    expect(doc.content.map(node => node.type)).toEqual(["paragraph", "bulletList"]);
+  });
+
+  it("ignores comments, unknown tags and stray closing tags", () => {
+    const doc = parseRichText("<!-- note --><p><span>Text</span></li></p>");
+    expect(doc).toEqual({
+      type: "doc",
+      content: [{ type: "paragraph", content: [{ type: "text", text: "Text", marks: undefined }] }]
+    });
+  });
+
+  it("returns an empty document for empty input", () => {
+    expect(parseRichText("")).toEqual({ type: "doc", content: [] });
+  });
+});
+
+describe("sanitizeRichText", () => {
+  it("keeps the formatting the editor supports", () => {
+    const html = "<p>Led a <strong>team</strong> of <em>five</em><br>and <s>four</s></p><ol start=\"2\"><li><p>One</p></li></ol>";
+    expect(sanitizeRichText(html)).toBe(html);
+  });
+
+  it("drops other tags and attributes and escapes text", () => {
+    expect(sanitizeRichText("<p onclick=\"x()\">x<img src=x onerror=alert(1)><script>alert(1)</script></p>"))
+      .toBe("<p>xalert(1)</p>");
+    expect(sanitizeRichText("<p>&lt;b&gt; &amp; co</p>")).toBe("<p>&lt;b&gt; &amp; co</p>");
+  });
+});
@@ -0,0 +1,202 @@
+// Parser for the HTML produced by the TipTap rich text editor. The result has
+// the same shape as ProseMirror's JSON (editor.getJSON()), so renderers can
+// walk a proper tree of blocks and marked text instead of pattern matching
+// on tags. It has no DOM dependency and works in the browser and on the server.
+
+export type RichTextMarkType = "bold" | "italic" | "strike";
+
+export interface RichTextMark {
+  type: RichTextMarkType;
+}
+
+export interface RichTextNode {
+  type: "doc" | "paragraph" | "bulletList" | "orderedList" | "listItem" | "text" | "hardBreak";
+  content?: RichTextNode[];
+  text?: string;
+  marks?: RichTextMark[];
+  attrs?: { start?: number };
+}
+
+const BLOCK_TAGS: Record<string, RichTextNode["type"]> = {
+  p: "paragraph",
+  div: "paragraph",
+  h1: "paragraph",
+  h2: "paragraph",
+  h3: "paragraph",
+  h4: "paragraph",
+  h5: "paragraph",
+  h6: "paragraph",
+  ul: "bulletList",
+  ol: "orderedList",
+  li: "listItem"
+};
+
+const MARK_TAGS: Record<string, RichTextMarkType> = {
+  strong: "bold",
+  b: "bold",
+  em: "italic",
+  i: "italic",
+  s: "strike",
+  del: "strike",
+  strike: "strike"
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " "
+};
+
+export const decodeHtmlEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const codePoint = entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isNaN(codePoint) || codePoint > 0x10ffff ? match : String.fromCodePoint(codePoint);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+};
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<\/?([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|[^<]+|</g;
+
+export const parseRichText = (html: string): RichTextNode => {
+  const doc: RichTextNode = { type: "doc", content: [] };
+  const stack: RichTextNode[] = [doc];
+  // Paragraphs opened for loose text, e.g. "<li>text</li>" or plain descriptions
+  const implicitParagraphs = new Set<RichTextNode>();
+  const activeMarks: RichTextMarkType[] = [];
+
+  const top = () => stack[stack.length - 1];
+
+  const append = (node: RichTextNode) => {
+    const parent = top();
+    parent.content = parent.content || [];
+    parent.content.push(node);
+  };
+
+  const closeImplicitParagraph = () => {
+    if (implicitParagraphs.has(top())) {
+      stack.pop();
+    }
+  };
+
+  // Inline content always lives in a paragraph
+  const ensureParagraph = () => {
+    if (top().type === "paragraph") return;
+    const paragraph: RichTextNode = { type: "paragraph", content: [] };
+    append(paragraph);
+    stack.push(paragraph);
+    implicitParagraphs.add(paragraph);
+  };
+
+  const currentMarks = (): RichTextMark[] | undefined => {
+    const unique = Array.from(new Set(activeMarks));
+    return unique.length > 0 ? unique.map(type => ({ type })) : undefined;
+  };
+
+  for (const match of (html || "").matchAll(TOKEN_PATTERN)) {
+    const [token, rawTag, rawAttributes = ""] = match;
+
+    if (token.startsWith("<!--")) continue;
+
+    if (!rawTag) {
+      const text = decodeHtmlEntities(token);
+      // Skip the whitespace between block tags
+      if (top().type !== "paragraph" && !text.trim()) continue;
+      ensureParagraph();
+      append({ type: "text", text, marks: currentMarks() });
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    const isClosing = token.startsWith("</");
+
+    if (tag === "br") {
+      ensureParagraph();
+      append({ type: "hardBreak" });
+      continue;
+    }
+
+    if (MARK_TAGS[tag]) {
+      if (isClosing) {
+        const index = activeMarks.lastIndexOf(MARK_TAGS[tag]);
+        if (index !== -1) activeMarks.splice(index, 1);
+      } else if (!token.endsWith("/>")) {
+        activeMarks.push(MARK_TAGS[tag]);
+      }
+      continue;
+    }
+
+    const blockType = BLOCK_TAGS[tag];
+    if (!blockType) continue;
+
+    if (isClosing) {
+      // Pop back to the matching block, ignoring stray closing tags
+      const index = stack.map(node => node.type).lastIndexOf(blockType);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    closeImplicitParagraph();
+    // Block elements cannot sit inside a paragraph
+    if (top().type === "paragraph") {
+      stack.pop();
+    }
+
+    const node: RichTextNode = { type: blockType, content: [] };
+    if (blockType === "orderedList") {
+      const start = rawAttributes.match(/start\s*=\s*["']?(\d+)/i);
+      node.attrs = { start: start ? parseInt(start[1], 10) : 1 };
+    }
+    append(node);
+    stack.push(node);
+  }
+
+  return doc;
+};
+
+const MARK_HTML_TAGS: Record<RichTextMarkType, string> = {
+  bold: "strong",
+  italic: "em",
+  strike: "s"
+};
+
+const BLOCK_HTML_TAGS: Partial<Record<RichTextNode["type"], string>> = {
+  paragraph: "p",
+  bulletList: "ul",
+  orderedList: "ol",
+  listItem: "li"
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Write a parsed tree back out as HTML the editor understands. Only the tags
+// the parser knows are written and all text is escaped.
+export const serializeRichText = (node: RichTextNode): string => {
+  if (node.type === "text") {
+    return (node.marks || []).reduceRight(
+      (html, mark) => `<${MARK_HTML_TAGS[mark.type]}>${html}</${MARK_HTML_TAGS[mark.type]}>`,
+      escapeHtml(node.text || "")
+    );
+  }
+  if (node.type === "hardBreak") return "<br>";
+
+  const content = (node.content || []).map(serializeRichText).join("");
+  const tag = BLOCK_HTML_TAGS[node.type];
+  if (!tag) return content;
+
+  const start = node.type === "orderedList" && node.attrs?.start !== 1 ? ` start="${node.attrs?.start}"` : "";
+  return `<${tag}${start}>${content}</${tag}>`;
+};
+
+// Rich text from outside the editor, e.g. a loaded file or a submission,
+// reduced to the formatting the editor supports
+export const sanitizeRichText = (html: string): string => serializeRichText(parseRichText(html));
@@ -0,0 +1,122 @@
+import { TimelineEntry, parseDateString } from "./cvUtils";
+import { YearMonth, addMonths, compareYearMonths, currentYearMonth, parseYearMonth } from "./yearMonth";
+
+// Typical school paths, used to give candidates skeleton education entries
+// from their date of birth. The entries are only a starting point: the
+// candidate fills in each school or deletes stages that do not apply.
+// Add a system here to offer it for overseas candidates.
+
+export interface SchoolStage {
+  title: string;
+  startAge: number; // age at the start of the school year the stage begins
+  endAge: number; // age at the start of the school year after it ends
+}
+
+export interface SchoolSystem {
+  id: string;
+  label: string; // shown when picking a system
+  country: string; // filled in on the generated entries
+  schoolYearStartMonth: number; // 1-12
+  schoolYearEndMonth: number; // 1-12, the last month of teaching
+  stages: SchoolStage[];
+}
+
+export const SCHOOL_SYSTEMS: SchoolSystem[] = [
+  {
+    id: "uk",
+    label: "United Kingdom",
+    country: "United Kingdom",
+    schoolYearStartMonth: 9,
+    schoolYearEndMonth: 7,
+    stages: [
+      { title: "Primary School", startAge: 4, endAge: 11 },
+      { title: "Secondary School", startAge: 11, endAge: 16 },
+      { title: "Sixth Form / College", startAge: 16, endAge: 18 }
+    ]
+  },
+  {
+    id: "us",
+    label: "United States",
+    country: "United States",
+    schoolYearStartMonth: 9,
+    schoolYearEndMonth: 6,
+    stages: [
+      { title: "Elementary School", startAge: 5, endAge: 11 },
+      { title: "Middle School", startAge: 11, endAge: 14 },
+      { title: "High School", startAge: 14, endAge: 18 }
+    ]
+  },
+  {
+    id: "ng",
+    label: "Nigeria",
+    country: "Nigeria",
+    schoolYearStartMonth: 9,
+    schoolYearEndMonth: 7,
+    stages: [
+      { title: "Primary School", startAge: 6, endAge: 12 },
+      { title: "Junior Secondary School", startAge: 12, endAge: 15 },
+      { title: "Senior Secondary School", startAge: 15, endAge: 18 }
+    ]
+  },
+  {
+    id: "in",
+    label: "India",
+    country: "India",
+    schoolYearStartMonth: 4,
+    schoolYearEndMonth: 3,
+    stages: [
+      { title: "Primary School", startAge: 6, endAge: 11 },
+      { title: "Upper Primary School", startAge: 11, endAge: 14 },
+      { title: "Secondary School", startAge: 14, endAge: 16 },
+      { title: "Higher Secondary School", startAge: 16, endAge: 18 }
+    ]
+  }
+];
+
+export const DEFAULT_SCHOOL_SYSTEM_ID = "uk";
+
+export const getSchoolSystem = (id?: string): SchoolSystem =>
+  SCHOOL_SYSTEMS.find(system => system.id === id) ||
+  SCHOOL_SYSTEMS.find(system => system.id === DEFAULT_SCHOOL_SYSTEM_ID);
+
+// First month of the school year in which a child born in birthMonth reaches
+// age. Children born from the start of the school year onwards join the
+// following year's intake, e.g. in the UK a September birthday starts school
+// a year later than an August one.
+const getStageStart = (birthMonth: YearMonth, age: number, system: SchoolSystem): YearMonth => ({
+  year: birthMonth.year + age + (birthMonth.month >= system.schoolYearStartMonth ? 1 : 0),
+  month: system.schoolYearStartMonth
+});
+
+// One education entry per stage the candidate has started, ending "present"
+// for a stage still under way. A stage runs through the summer holiday to the
+// next one, so moving between schools is not reported as a gap, and the last
+// stage ends with the final term. Empty without a valid date of birth.
+export const buildEducationSkeleton = (dateOfBirth: string, systemId?: string): TimelineEntry[] => {
+  const birthMonth = parseYearMonth(parseDateString(dateOfBirth));
+  if (!birthMonth) return [];
+
+  const system = getSchoolSystem(systemId);
+  const schoolYearMonths = (system.schoolYearEndMonth - system.schoolYearStartMonth + 12) % 12 + 1;
+  const today = currentYearMonth();
+
+  return system.stages
+    .map((stage, index) => {
+      const startDate = getStageStart(birthMonth, stage.startAge, system);
+      const endDate = index < system.stages.length - 1
+        ? addMonths(getStageStart(birthMonth, stage.endAge, system), -1)
+        : addMonths(startDate, (stage.endAge - stage.startAge - 1) * 12 + schoolYearMonths - 1);
+      return { stage, startDate, endDate };
+    })
+    .filter(({ startDate }) => compareYearMonths(startDate, today) <= 0)
+    .map(({ stage, startDate, endDate }): TimelineEntry => ({
+      id: crypto.randomUUID(),
+      type: "education",
+      title: stage.title,
+      organization: "",
+      country: system.country,
+      startDate,
+      endDate: compareYearMonths(endDate, today) > 0 ? "present" : endDate,
+      description: ""
+    }));
+};
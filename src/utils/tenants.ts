@@ -0,0 +1,92 @@
+import { DEFAULT_VALIDATION_POLICY, ValidationPolicy } from "./validation";
+
+// Agencies served by this app. Each tenant has its own branding, mailbox and
+// document header/footer, and is picked from the hostname the app is served
+// from (in the browser) or the request origin (on the server).
+
+export interface TenantConfig {
+  id: string;
+  name: string; // e.g. "Royacare Agency"
+  appTitle: string; // shown in the page header
+  logoUrl?: string; // path under /public or an absolute URL
+  colors: {
+    primary: string; // hex, used for the header and document headings
+    accent: string; // hex
+  };
+  hostnames: string[];
+  // Mailbox that receives submitted CVs and the address they come from. The
+  // server's EMAIL_TO_<TENANT>/EMAIL_FROM_<TENANT> or EMAIL_TO/EMAIL_FROM take
+  // precedence, and it will not start while a tenant has no recipient.
+  email?: {
+    to?: string;
+    from?: string;
+  };
+  privacyNotice: string;
+  document: {
+    header?: string;
+    footer?: string;
+  };
+  policy?: Partial<ValidationPolicy>; // overrides DEFAULT_VALIDATION_POLICY
+}
+
+export const TENANTS: TenantConfig[] = [
+  {
+    id: "royacare",
+    name: "Royacare Agency",
+    appTitle: "Royacare Agency CV Builder",
+    colors: { primary: "#1e3a8a", accent: "#2563eb" },
+    hostnames: ["royacare-cv-builder.vercel.app", "cv-chronologizer.vercel.app"],
+    email: {
+      to: "recruitment@royacare.co.uk",
+      from: "CV Chronologizer <recruitment@royacare.co.uk>"
+    },
+    privacyNotice: "Royacare Agency uses the details in your CV only to assess your application. They are sent to our recruitment team and are not shared with third parties.",
+    document: {
+      footer: "Submitted to Royacare Agency via the CV Builder"
+    }
+  },
+  {
+    id: "naomicare",
+    name: "Naomicare",
+    appTitle: "Naomicare CV Builder",
+    colors: { primary: "#0f766e", accent: "#14b8a6" },
+    hostnames: ["naomicare-cv-builder.vercel.app"],
+    privacyNotice: "Naomicare uses the details in your CV only to assess your application. They are sent to our recruitment team and are not shared with third parties.",
+    document: {
+      footer: "Submitted to Naomicare via the CV Builder"
+    }
+  }
+];
+
+// Used for local development and any hostname not listed above
+export const DEFAULT_TENANT_ID = "royacare";
+
+export const getTenant = (id?: string): TenantConfig => {
+  return TENANTS.find(tenant => tenant.id === id) ||
+    TENANTS.find(tenant => tenant.id === DEFAULT_TENANT_ID);
+};
+
+export const getTenantPolicy = (tenant: TenantConfig): ValidationPolicy => ({
+  ...DEFAULT_VALIDATION_POLICY,
+  ...tenant.policy
+});
+
+// Accepts a bare hostname or a full origin such as "https://example.com"
+export const resolveTenant = (hostnameOrOrigin?: string): TenantConfig => {
+  let hostname = (hostnameOrOrigin || "").trim().toLowerCase();
+
+  if (hostname.includes("://")) {
+    try {
+      hostname = new URL(hostname).hostname;
+    } catch {
+      hostname = "";
+    }
+  }
+
+  return TENANTS.find(tenant => tenant.hostnames.includes(hostname)) || getTenant(DEFAULT_TENANT_ID);
+};
+
+// Origins allowed to call the API: every tenant hostname over https
+export const getTenantOrigins = (): string[] => {
+  return TENANTS.flatMap(tenant => tenant.hostnames.map(hostname => `https://${hostname}`));
+};
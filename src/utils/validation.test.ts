@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import type { CVData, TimelineEntry } from "./cvUtils";
+import { hasErrors, validateCVData, validateEntry, validateEntryChange, validateTimeline } from "./validation";
+import { yearDate } from "./yearMonth";
+
+const DATE_OF_BIRTH = "2000-01-15";
+
+const makeEntry = (id: string, start: string, end: string, overrides: Partial<TimelineEntry> = {}): TimelineEntry => {
+  const [startYear, startMonth] = start.split("-").map(Number);
+  const [endYear, endMonth] = end.split("-").map(Number);
+  return {
+    id,
+    type: "education",
+    title: `Entry ${id}`,
+    organization: "",
+    country: "United Kingdom",
+    startDate: { year: startYear, month: startMonth },
+    endDate: { year: endYear, month: endMonth },
+    description: "<p>Details</p>",
+    ...overrides
+  };
+};
+
+const codesOf = (issues: { code: string }[]) => issues.map(issue => issue.code);
+
+describe("validateEntry", () => {
+  it("requires the fields for the entry type", () => {
+    const issues = validateEntry({ ...makeEntry("a", "2010-01", "2011-01"), type: "work", title: " ", description: "<p><br></p>" });
+
+    expect(issues.map(issue => issue.path[0])).toEqual(["title", "organization", "description"]);
+    expect(hasErrors(issues)).toBe(true);
+  });
+
+  it("accepts an entry that starts and ends in the same month", () => {
+    expect(validateEntry(makeEntry("a", "2010-01", "2010-01"))).toEqual([]);
+  });
+
+  it("rejects an end before the start", () => {
+    expect(codesOf(validateEntry(makeEntry("a", "2010-05", "2010-04")))).toEqual(["end_before_start"]);
+  });
+
+  it("only rejects imprecise dates when every reading is wrong", () => {
+    const entry = { ...makeEntry("a", "2010-01", "2010-01"), startDate: yearDate(2010), endDate: { year: 2010, month: 3 } };
+    expect(validateEntry(entry)).toEqual([]);
+  });
+});
+
+describe("validateTimeline", () => {
+  const school = makeEntry("school", "2004-09", "2016-07");
+
+  it("needs a date of birth", () => {
+    expect(codesOf(validateTimeline([school]))).toEqual(["date_of_birth_missing"]);
+  });
+
+  it("checks the first entry against the age window", () => {
+    const late = makeEntry("late", "2014-09", "2016-07");
+    expect(codesOf(validateTimeline([late], DATE_OF_BIRTH))).toEqual(["first_entry_window"]);
+  });
+
+  it("blames an unexplained gap on the entry after it", () => {
+    const college = makeEntry("college", "2016-11", "2018-07");
+    const issues = validateTimeline([school, college], DATE_OF_BIRTH);
+
+    expect(codesOf(issues)).toEqual(["unexplained_gap"]);
+    expect(issues[0].entryId).toBe("college");
+  });
+
+  it("does not report an acknowledged gap", () => {
+    const college = makeEntry("college", "2016-11", "2018-07");
+    const gap = { start: { year: 2016, month: 8 }, end: { year: 2016, month: 10 }, months: 3 };
+
+    expect(validateTimeline([school, college], DATE_OF_BIRTH, undefined, [gap])).toEqual([]);
+  });
+
+  it("allows main-track entries to share their changeover month", () => {
+    const college = makeEntry("college", "2016-07", "2018-07");
+    expect(validateTimeline([school, college], DATE_OF_BIRTH)).toEqual([]);
+  });
+
+  it("rejects overlapping main-track entries on the later one", () => {
+    const college = makeEntry("college", "2016-04", "2018-07");
+    const issues = validateTimeline([school, college], DATE_OF_BIRTH);
+
+    expect(codesOf(issues)).toEqual(["overlapping_entries"]);
+    expect(issues[0].entryId).toBe("college");
+    expect(issues[0].message).toContain("mark one of them as concurrent");
+  });
+
+  it("accepts an overlapping entry marked as concurrent", () => {
+    const job = makeEntry("job", "2014-06", "2015-06", { type: "work", organization: "Shop", concurrent: true });
+    expect(validateTimeline([school, job], DATE_OF_BIRTH)).toEqual([]);
+  });
+
+  it("rejects a concurrent entry that overlaps nothing", () => {
+    const job = makeEntry("job", "2017-01", "2017-06", { type: "work", organization: "Shop", concurrent: true });
+    expect(codesOf(validateTimeline([school, job], DATE_OF_BIRTH))).toContain("concurrent_without_overlap");
+  });
+
+  it("reads year-only dates favourably when looking for overlaps", () => {
+    const first = { ...makeEntry("first", "2004-01", "2004-01"), endDate: yearDate(2010) };
+    const second = { ...makeEntry("second", "2010-01", "2010-01"), startDate: yearDate(2010), endDate: yearDate(2011) };
+
+    expect(codesOf(validateTimeline([first, second], DATE_OF_BIRTH))).not.toContain("overlapping_entries");
+  });
+});
+
+describe("validateEntryChange", () => {
+  it("turns a gap left by the change into a warning", () => {
+    const school = makeEntry("school", "2004-09", "2016-07");
+    const issues = validateEntryChange([school], makeEntry("college", "2016-11", "2018-07"), DATE_OF_BIRTH);
+
+    expect(issues).toMatchObject([{ code: "unexplained_gap", severity: "warning" }]);
+    expect(hasErrors(issues)).toBe(false);
+  });
+
+  it("does not blame the entry for problems elsewhere in the CV", () => {
+    const school = makeEntry("school", "2004-09", "2016-07");
+    const college = makeEntry("college", "2016-04", "2018-07");
+    const job = makeEntry("job", "2018-07", "2020-01", { type: "work", organization: "Shop" });
+
+    expect(validateEntryChange([school, college], job, DATE_OF_BIRTH)).toEqual([]);
+  });
+});
+
+describe("validateCVData", () => {
+  const data: CVData = {
+    personalInfo: { firstName: "Ada", lastName: "Lovelace", dateOfBirth: DATE_OF_BIRTH },
+    entries: [makeEntry("school", "2004-09", "2016-07"), makeEntry("college", "2016-04", "2018-07", { title: "" })]
+  };
+
+  it("gives entry issues paths into the CV", () => {
+    const issues = validateCVData(data);
+
+    expect(issues).toContainEqual(expect.objectContaining({ code: "required", path: ["entries", 1, "title"] }));
+    expect(issues).toContainEqual(expect.objectContaining({ code: "overlapping_entries", path: ["entries", 1, "startDate"] }));
+  });
+
+  it("requires a name and at least one entry", () => {
+    const issues = validateCVData({ personalInfo: { firstName: "", lastName: "", dateOfBirth: DATE_OF_BIRTH }, entries: [] });
+    expect(codesOf(issues)).toEqual(["required", "required", "no_entries"]);
+  });
+});
@@ -0,0 +1,330 @@
+import {
+  CVData,
+  EntryType,
+  TimelineEntry,
+  TimelineEntryInput,
+  TimelineGap,
+  getAgeInYears,
+  identifyGaps,
+  isWithinFirstEntryWindow,
+  parseDateString
+} from "./cvUtils";
+import { earliestMonth, formatDateForDisplay, isSameYearMonth, latestMonth } from "./yearMonth";
+
+// Rules for a CV and its entries, shared by the entry form, the edit form,
+// the preview and the server so they all accept and reject the same data.
+// Rules return issues instead of showing messages so each caller can decide
+// how to present them.
+
+export type ValidationSeverity = "error" | "warning";
+
+export type ValidationCode =
+  | "required"
+  | "end_before_start"
+  | "date_of_birth_missing"
+  | "candidate_too_young"
+  | "first_entry_window"
+  | "unexplained_gap"
+  | "concurrent_without_overlap"
+  | "overlapping_entries"
+  | "no_entries"
+  | "future_start"
+  | "before_birth"
+  | "implausible_age"
+  | "very_long_entry";
+
+export interface ValidationIssue {
+  // Path into CVData, e.g. ["entries", 2, "title"] or ["personalInfo", "firstName"].
+  // Entry rules return paths relative to the entry, e.g. ["title"].
+  path: (string | number)[];
+  entryId?: string;
+  code: ValidationCode;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+// Settings an agency can change. Gaps up to gapThresholdMonths long are
+// accepted without an explanation. The first entry must start between
+// firstEntryMinAge and firstEntryMaxAge, so the history reaches back to
+// school. The compliance report expects the history to be complete from
+// schoolLeavingAge onwards, or only for the last requiredHistoryYears if set.
+export interface ValidationPolicy {
+  gapThresholdMonths: number;
+  schoolLeavingAge: number;
+  firstEntryMinAge: number;
+  firstEntryMaxAge: number;
+  minimumCandidateAge: number;
+  requiredHistoryYears: number | null;
+}
+
+export const DEFAULT_VALIDATION_POLICY: ValidationPolicy = {
+  gapThresholdMonths: 1,
+  schoolLeavingAge: 16,
+  firstEntryMinAge: 1,
+  firstEntryMaxAge: 11,
+  minimumCandidateAge: 16,
+  requiredHistoryYears: null
+};
+
+export const formatFirstEntryRule = (policy: ValidationPolicy): string =>
+  `First entry must start when you are between ${policy.firstEntryMinAge} and ${policy.firstEntryMaxAge} years old`;
+
+export const formatMinimumAgeRule = (policy: ValidationPolicy): string =>
+  `You must be at least ${policy.minimumCandidateAge} years old to apply`;
+
+// Fields an entry of each type must have. The end date is always required
+// but may be "present".
+export const REQUIRED_ENTRY_FIELDS: Record<EntryType, (keyof TimelineEntryInput)[]> = {
+  education: ["title", "country", "startDate", "endDate", "description"],
+  work: ["title", "organization", "country", "startDate", "endDate", "description"],
+  gap: ["startDate", "endDate", "description"]
+};
+
+const REQUIRED_FIELD_MESSAGES: Partial<Record<keyof TimelineEntryInput, string>> = {
+  title: "Please enter a title",
+  organization: "Please enter the company name",
+  country: "Please enter a country",
+  startDate: "Please select a start date",
+  endDate: "Please select an end date or mark the entry as present",
+  description: "Please add a description"
+};
+
+// Checks for effectively empty rich text content
+export const isEmptyRichText = (value: string): boolean => {
+  if (!value) return true;
+  const trimmed = value.trim();
+  // Consider variations of empty paragraph tags or just breaks
+  return trimmed === '' || trimmed === '<p></p>' || trimmed === '<p><br></p>' || trimmed === '<p><br/></p>';
+};
+
+const isFieldEmpty = (entry: TimelineEntryInput, field: keyof TimelineEntryInput): boolean => {
+  const value = entry[field];
+  if (field === "description") return isEmptyRichText(entry.description);
+  if (typeof value === "string") return !value.trim();
+  return !value;
+};
+
+export const hasErrors = (issues: ValidationIssue[]): boolean =>
+  issues.some(issue => issue.severity === "error");
+
+// Field and date rules for a single entry, independent of the rest of the CV
+export const validateEntry = (entry: TimelineEntryInput & { id?: string }): ValidationIssue[] => {
+  const issues: ValidationIssue[] = REQUIRED_ENTRY_FIELDS[entry.type]
+    .filter(field => isFieldEmpty(entry, field))
+    .map(field => ({
+      path: [field],
+      entryId: entry.id,
+      code: "required",
+      severity: "error",
+      message: REQUIRED_FIELD_MESSAGES[field]
+    }));
+
+  // Entries cover whole months, so one may start and end in the same month.
+  // Imprecise dates only fail if the end is before every month the start could be.
+  if (entry.startDate && entry.endDate && latestMonth(entry.endDate) < earliestMonth(entry.startDate)) {
+    issues.push({
+      path: ["endDate"],
+      entryId: entry.id,
+      code: "end_before_start",
+      severity: "error",
+      message: "End date cannot be before the start date"
+    });
+  }
+
+  return issues;
+};
+
+export const formatGapPeriod = (gap: TimelineGap): string =>
+  `${formatDateForDisplay(gap.start)} - ${formatDateForDisplay(gap.end)}`;
+
+export const isSameGap = (a: TimelineGap, b: TimelineGap) =>
+  isSameYearMonth(a.start, b.start) && isSameYearMonth(a.end, b.end);
+
+// Gaps longer than the policy allows that the candidate has neither filled
+// with a gap entry nor acknowledged
+export const findUnexplainedGaps = (
+  entries: TimelineEntry[],
+  policy: ValidationPolicy = DEFAULT_VALIDATION_POLICY,
+  acknowledgedGaps: TimelineGap[] = []
+): TimelineGap[] =>
+  identifyGaps(entries).filter(gap =>
+    gap.months > policy.gapThresholdMonths &&
+    !acknowledgedGaps.some(acknowledged => isSameGap(acknowledged, gap))
+  );
+
+// Months two entries certainly share. Imprecise dates are read as favourably
+// as possible, so e.g. "2010" and "Summer 2010" need not overlap.
+const countSharedMonths = (a: TimelineEntry, b: TimelineEntry): number =>
+  Math.min(earliestMonth(a.endDate), earliestMonth(b.endDate)) -
+  Math.max(latestMonth(a.startDate), latestMonth(b.startDate)) + 1;
+
+const describeEntry = (entry: TimelineEntry): string =>
+  `${entry.title || entry.organization || "Untitled entry"} (${formatDateForDisplay(entry.startDate)} - ${formatDateForDisplay(entry.endDate)})`;
+
+// Rules for how entries fit together: the first entry must start within the
+// policy's age window, gaps must be explained or acknowledged, entries on the
+// main track must not overlap, and a concurrent entry must overlap an entry
+// on the main track
+export const validateTimeline = (
+  entries: TimelineEntry[],
+  dateOfBirth?: string,
+  policy: ValidationPolicy = DEFAULT_VALIDATION_POLICY,
+  acknowledgedGaps: TimelineGap[] = []
+): ValidationIssue[] => {
+  if (entries.length === 0) return [];
+
+  const issues: ValidationIssue[] = [];
+  const sortedEntries = [...entries].sort((a, b) => earliestMonth(a.startDate) - earliestMonth(b.startDate));
+
+  const isoDob = parseDateString(dateOfBirth);
+  if (!isoDob) {
+    issues.push({
+      path: ["personalInfo", "dateOfBirth"],
+      code: "date_of_birth_missing",
+      severity: "error",
+      message: "Please add your date of birth in Personal Details"
+    });
+  } else if (!isWithinFirstEntryWindow(isoDob, sortedEntries[0].startDate, policy)) {
+    issues.push({
+      path: ["startDate"],
+      entryId: sortedEntries[0].id,
+      code: "first_entry_window",
+      severity: "error",
+      message: formatFirstEntryRule(policy)
+    });
+  }
+
+  // Blame each gap on the entry that starts after it
+  findUnexplainedGaps(entries, policy, acknowledgedGaps).forEach(gap => {
+    const nextEntry = sortedEntries.find(entry => earliestMonth(entry.startDate) > earliestMonth(gap.end));
+    issues.push({
+      path: ["startDate"],
+      entryId: nextEntry?.id,
+      code: "unexplained_gap",
+      severity: "error",
+      message: `Please explain the ${gap.months}-month gap (${formatGapPeriod(gap)}) before this entry`
+    });
+  });
+
+  // Main-track entries follow one another. One month is shared without
+  // complaint, as one job often ends in the month the next one starts.
+  const mainEntries = sortedEntries.filter(entry => !entry.concurrent);
+  mainEntries.forEach((entry, index) => {
+    const earlier = mainEntries.slice(0, index).find(other => countSharedMonths(other, entry) > 1);
+    if (earlier) {
+      issues.push({
+        path: ["startDate"],
+        entryId: entry.id,
+        code: "overlapping_entries",
+        severity: "error",
+        message: `${describeEntry(entry)} overlaps ${describeEntry(earlier)}. If you did both at the same time, mark one of them as concurrent.`
+      });
+    }
+  });
+
+  sortedEntries
+    .filter(entry => entry.concurrent)
+    .forEach(entry => {
+      const overlapsMainEntry = sortedEntries.some(other =>
+        !other.concurrent &&
+        earliestMonth(other.startDate) <= latestMonth(entry.endDate) &&
+        earliestMonth(entry.startDate) <= latestMonth(other.endDate)
+      );
+      if (!overlapsMainEntry) {
+        issues.push({
+          path: ["concurrent"],
+          entryId: entry.id,
+          code: "concurrent_without_overlap",
+          severity: "error",
+          message: "A concurrent entry must overlap the dates of another entry"
+        });
+      }
+    });
+
+  return issues;
+};
+
+const isSameIssue = (a: ValidationIssue, b: ValidationIssue) =>
+  a.code === b.code && a.entryId === b.entryId;
+
+// Validate adding an entry, or replacing the entry with the same ID. Timeline
+// problems that already existed elsewhere in the CV are not blamed on it, and
+// a gap it leaves is only a warning: gaps are resolved before previewing.
+export const validateEntryChange = (
+  entries: TimelineEntry[],
+  entry: TimelineEntryInput & { id: string },
+  dateOfBirth?: string,
+  policy: ValidationPolicy = DEFAULT_VALIDATION_POLICY
+): ValidationIssue[] => {
+  const entryIssues = validateEntry(entry);
+  // Without both dates the entry cannot be placed on the timeline yet
+  if (!entry.startDate || !entry.endDate) return entryIssues;
+
+  const datedEntry: TimelineEntry = { ...entry, startDate: entry.startDate, endDate: entry.endDate };
+  const others = entries.filter(e => e.id !== entry.id);
+
+  const before = validateTimeline(others, dateOfBirth, policy);
+  const timelineIssues = validateTimeline([...others, datedEntry], dateOfBirth, policy)
+    .filter(issue => issue.entryId === entry.id || !before.some(existing => isSameIssue(existing, issue)))
+    .map(issue => issue.code === "unexplained_gap" ? { ...issue, severity: "warning" as const } : issue);
+
+  return [...entryIssues, ...timelineIssues];
+};
+
+// Every rule for a complete CV, e.g. before previewing or on submission.
+// Entry issues get paths into data.entries.
+export const validateCVData = (data: CVData, policy: ValidationPolicy = DEFAULT_VALIDATION_POLICY): ValidationIssue[] => {
+  const { personalInfo, entries, acknowledgedGaps } = data;
+  const issues: ValidationIssue[] = [];
+
+  if (!personalInfo.firstName?.trim()) {
+    issues.push({
+      path: ["personalInfo", "firstName"],
+      code: "required",
+      severity: "error",
+      message: "Please enter your first name"
+    });
+  }
+
+  if (!personalInfo.lastName?.trim()) {
+    issues.push({
+      path: ["personalInfo", "lastName"],
+      code: "required",
+      severity: "error",
+      message: "Please enter your last name"
+    });
+  }
+
+  const age = getAgeInYears(personalInfo.dateOfBirth);
+  if (age !== null && age < policy.minimumCandidateAge) {
+    issues.push({
+      path: ["personalInfo", "dateOfBirth"],
+      code: "candidate_too_young",
+      severity: "error",
+      message: formatMinimumAgeRule(policy)
+    });
+  }
+
+  if (entries.length === 0) {
+    issues.push({
+      path: ["entries"],
+      code: "no_entries",
+      severity: "error",
+      message: "Please add at least one entry to your CV"
+    });
+    return issues;
+  }
+
+  const entryIssues = [
+    ...entries.flatMap(entry => validateEntry(entry)),
+    ...validateTimeline(entries, personalInfo.dateOfBirth, policy, acknowledgedGaps)
+  ];
+
+  return [
+    ...issues,
+    ...entryIssues.map(issue => {
+      const index = entries.findIndex(entry => entry.id === issue.entryId);
+      return index === -1 ? issue : { ...issue, path: ["entries", index, ...issue.path] };
+    })
+  ];
+};
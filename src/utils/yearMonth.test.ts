@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  addMonths,
+  compareYearMonths,
+  formatDateForDisplay,
+  formatTimelineDate,
+  fromMonthIndex,
+  getMonthRange,
+  parsePartialDate,
+  parseTimelineDate,
+  parseYearMonth,
+  seasonDate,
+  toMonthIndex,
+  yearDate
+} from "./yearMonth";
+
+describe("parseYearMonth", () => {
+  it("reads ISO and UK dates, dropping the day", () => {
+    expect(parseYearMonth("2015-09")).toEqual({ year: 2015, month: 9 });
+    expect(parseYearMonth("2015-09-23")).toEqual({ year: 2015, month: 9 });
+    expect(parseYearMonth("23/9/2015")).toEqual({ year: 2015, month: 9 });
+  });
+
+  it("rejects anything else", () => {
+    expect(parseYearMonth(undefined)).toBeNull();
+    expect(parseYearMonth("")).toBeNull();
+    expect(parseYearMonth("2015-13")).toBeNull();
+    expect(parseYearMonth("2015-00")).toBeNull();
+    expect(parseYearMonth("September 2015")).toBeNull();
+  });
+});
+
+describe("parsePartialDate", () => {
+  it("reads years, seasons and approximate dates", () => {
+    expect(parsePartialDate("2004")).toEqual(yearDate(2004));
+    expect(parsePartialDate("2004~")).toEqual(yearDate(2004, true));
+    expect(parsePartialDate("2004-23")).toEqual(seasonDate(2004, "autumn"));
+    expect(parsePartialDate("2004-09~")).toEqual({ year: 2004, month: 9, circa: true });
+  });
+
+  it("rejects unknown codes", () => {
+    expect(parsePartialDate("2004-25")).toBeNull();
+    expect(parsePartialDate("2004-20")).toBeNull();
+  });
+
+  it("round-trips through formatTimelineDate", () => {
+    for (const value of ["2004", "2004~", "2004-21", "2004-24~", "2004-09", "2004-09~", "present"]) {
+      expect(formatTimelineDate(parseTimelineDate(value))).toBe(value);
+    }
+  });
+});
+
+describe("month arithmetic", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("converts to and from month indices", () => {
+    expect(fromMonthIndex(toMonthIndex({ year: 2015, month: 12 }))).toEqual({ year: 2015, month: 12 });
+    expect(addMonths({ year: 2015, month: 11 }, 3)).toEqual({ year: 2016, month: 2 });
+    expect(addMonths({ year: 2016, month: 1 }, -1)).toEqual({ year: 2015, month: 12 });
+  });
+
+  it("treats present as the current month", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 5, 15));
+
+    expect(compareYearMonths("present", { year: 2024, month: 6 })).toBe(0);
+    expect(compareYearMonths({ year: 2024, month: 5 }, "present")).toBeLessThan(0);
+  });
+
+  it("widens the range of imprecise and approximate dates", () => {
+    const start = toMonthIndex({ year: 2004, month: 1 });
+
+    expect(getMonthRange({ year: 2004, month: 1 })).toEqual({ earliest: start, latest: start });
+    expect(getMonthRange(yearDate(2004))).toEqual({ earliest: start, latest: start + 11 });
+    expect(getMonthRange(yearDate(2004, true))).toEqual({ earliest: start - 12, latest: start + 23 });
+
+    const autumn = toMonthIndex({ year: 2004, month: 9 });
+    expect(getMonthRange(seasonDate(2004, "autumn"))).toEqual({ earliest: autumn, latest: autumn + 2 });
+  });
+});
+
+describe("formatDateForDisplay", () => {
+  it("names the month, season or year", () => {
+    expect(formatDateForDisplay({ year: 2015, month: 9 })).toBe("September 2015");
+    expect(formatDateForDisplay(seasonDate(2004, "winter"))).toBe("Winter 2004");
+    expect(formatDateForDisplay(yearDate(2004, true))).toBe("c. 2004");
+    expect(formatDateForDisplay("present")).toBe("Present");
+  });
+});
@@ -0,0 +1,206 @@
+// Timeline dates are whole months. Keeping them as a year and month, rather
+// than strings or Date objects, avoids new Date("2015-09") being read as UTC
+// midnight and shown as August 2015 in time zones behind UTC.
+
+export interface YearMonth {
+  year: number;
+  month: number; // 1-12
+}
+
+export type DatePrecision = "month" | "season" | "year";
+
+export type Season = "spring" | "summer" | "autumn" | "winter";
+
+// A date that may only be known to a season or a year, or only roughly, e.g.
+// the start of primary school. month is the first month of the season, or
+// January for a year.
+export interface PartialDate extends YearMonth {
+  precision?: DatePrecision; // "month" when missing
+  circa?: boolean;
+}
+
+// The start or end of an entry. An end may still be ongoing.
+export type TimelineDate = PartialDate | "present";
+
+export const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December"
+];
+
+// Winter starts in December and runs into the next year
+export const SEASON_START_MONTHS: Record<Season, number> = {
+  spring: 3,
+  summer: 6,
+  autumn: 9,
+  winter: 12
+};
+
+export const SEASON_NAMES: Record<Season, string> = {
+  spring: "Spring",
+  summer: "Summer",
+  autumn: "Autumn",
+  winter: "Winter"
+};
+
+// Seasons as written in ISO 8601-2 dates, e.g. "2004-23" for autumn 2004
+const SEASON_CODES: Record<Season, number> = {
+  spring: 21,
+  summer: 22,
+  autumn: 23,
+  winter: 24
+};
+
+const PRECISION_MONTHS: Record<DatePrecision, number> = {
+  month: 1,
+  season: 3,
+  year: 12
+};
+
+// How far either side an approximate date may be out
+const CIRCA_MARGIN_MONTHS: Record<DatePrecision, number> = {
+  month: 3,
+  season: 3,
+  year: 12
+};
+
+export const isPresent = (date: TimelineDate): date is "present" => date === "present";
+
+export const getPrecision = (date: PartialDate): DatePrecision => date.precision || "month";
+
+export const getSeason = (date: PartialDate): Season =>
+  (Object.keys(SEASON_START_MONTHS) as Season[]).find(season => SEASON_START_MONTHS[season] === date.month);
+
+const toYearMonth = (year: number, month: number): YearMonth | null =>
+  Number.isInteger(year) && Number.isInteger(month) && month >= 1 && month <= 12 ? { year, month } : null;
+
+// Reads yyyy-MM, yyyy-MM-dd or DD/MM/YYYY. The day, if any, is dropped.
+export const parseYearMonth = (value: string | undefined): YearMonth | null => {
+  if (!value) return null;
+
+  const isoMatch = value.match(/^(\d{4})-(\d{2})(-\d{2})?$/);
+  if (isoMatch) return toYearMonth(Number(isoMatch[1]), Number(isoMatch[2]));
+
+  const ukMatch = value.match(/^\d{1,2}\/(\d{1,2})\/(\d{4})$/);
+  if (ukMatch) return toYearMonth(Number(ukMatch[2]), Number(ukMatch[1]));
+
+  return null;
+};
+
+export const yearDate = (year: number, circa: boolean = false): PartialDate => ({
+  year,
+  month: 1,
+  precision: "year",
+  ...(circa && { circa })
+});
+
+export const seasonDate = (year: number, season: Season, circa: boolean = false): PartialDate => ({
+  year,
+  month: SEASON_START_MONTHS[season],
+  precision: "season",
+  ...(circa && { circa })
+});
+
+// Reads the ISO 8601-2 subset written by formatTimelineDate: "2004",
+// "2004-09", "2004-23" (autumn) and "2004~" (about 2004). A plain yyyy-MM-dd
+// or DD/MM/YYYY date is read as its month.
+export const parsePartialDate = (value: string | undefined): PartialDate | null => {
+  if (!value) return null;
+
+  const match = value.match(/^(\d{4})(?:-(\d{2}))?(~)?$/);
+  if (!match) return parseYearMonth(value);
+
+  const year = Number(match[1]);
+  const code = match[2] ? Number(match[2]) : null;
+  const circa = !!match[3];
+
+  if (code === null) return yearDate(year, circa);
+
+  const season = (Object.keys(SEASON_CODES) as Season[]).find(key => SEASON_CODES[key] === code);
+  if (season) return seasonDate(year, season, circa);
+
+  const date = toYearMonth(year, code);
+  return date && circa ? { ...date, circa } : date;
+};
+
+export const parseTimelineDate = (value: string | undefined): TimelineDate | null =>
+  value === "present" ? "present" : parsePartialDate(value);
+
+// The month of a Date in the browser's own time zone, e.g. from a date picker
+export const yearMonthFromDate = (date: Date): YearMonth => ({
+  year: date.getFullYear(),
+  month: date.getMonth() + 1
+});
+
+// Local midnight on the first of the month, for date pickers
+export const yearMonthToDate = (date: YearMonth): Date => new Date(date.year, date.month - 1, 1);
+
+export const currentYearMonth = (): YearMonth => yearMonthFromDate(new Date());
+
+// Months since year 0, for arithmetic and comparisons. "present" is the
+// current month, and an imprecise date counts as its first month.
+export const toMonthIndex = (date: YearMonth | "present"): number => {
+  const { year, month } = date === "present" ? currentYearMonth() : date;
+  return year * 12 + (month - 1);
+};
+
+export const fromMonthIndex = (index: number): YearMonth => ({
+  year: Math.floor(index / 12),
+  month: (index % 12) + 1
+});
+
+// The first and last month a date could mean, as month indices. Rules that
+// compare imprecise dates only fail when every reading of them would.
+export const getMonthRange = (date: TimelineDate): { earliest: number; latest: number } => {
+  const start = toMonthIndex(date);
+  if (isPresent(date)) return { earliest: start, latest: start };
+
+  const precision = getPrecision(date);
+  const margin = date.circa ? CIRCA_MARGIN_MONTHS[precision] : 0;
+  return {
+    earliest: start - margin,
+    latest: start + PRECISION_MONTHS[precision] - 1 + margin
+  };
+};
+
+export const earliestMonth = (date: TimelineDate): number => getMonthRange(date).earliest;
+
+export const latestMonth = (date: TimelineDate): number => getMonthRange(date).latest;
+
+export const compareYearMonths = (a: YearMonth | "present", b: YearMonth | "present"): number =>
+  toMonthIndex(a) - toMonthIndex(b);
+
+export const isSameYearMonth = (a: YearMonth, b: YearMonth): boolean =>
+  a.year === b.year && a.month === b.month;
+
+export const addMonths = (date: YearMonth, months: number): YearMonth =>
+  fromMonthIndex(toMonthIndex(date) + months);
+
+// yyyy-MM, e.g. for keys
+export const formatYearMonth = (date: YearMonth): string =>
+  `${date.year}-${String(date.month).padStart(2, "0")}`;
+
+// As stored in saved files and sent to the server, see parsePartialDate
+export const formatTimelineDate = (date: TimelineDate): string => {
+  if (isPresent(date)) return "present";
+
+  const precision = getPrecision(date);
+  const value = precision === "year"
+    ? String(date.year)
+    : precision === "season"
+      ? `${date.year}-${SEASON_CODES[getSeason(date)]}`
+      : formatYearMonth(date);
+  return date.circa ? `${value}~` : value;
+};
+
+// e.g. "September 2015", "Autumn 2004", "c. 2004" or "Present"
+export const formatDateForDisplay = (date: TimelineDate): string => {
+  if (isPresent(date)) return "Present";
+
+  const precision = getPrecision(date);
+  const label = precision === "year"
+    ? String(date.year)
+    : precision === "season"
+      ? `${SEASON_NAMES[getSeason(date)]} ${date.year}`
+      : `${MONTH_NAMES[date.month - 1]} ${date.year}`;
+  return date.circa ? `c. ${label}` : label;
+};